@@ -0,0 +1,63 @@
+/**
+ * Access Log
+ * What MCP clients did with a user's Polar data: every tool call with its
+ * arguments, the AccessLink endpoints it requested, how it ended and how
+ * long it took. The remote server keeps it in the user's Durable Object
+ * (see user-data.ts); the get_access_log tool and /account/activity read it.
+ */
+
+/** Entries older than this are dropped when new ones are recorded */
+export const ACCESS_LOG_RETENTION_DAYS = 90;
+
+export interface AccessLogEntry {
+  /** ISO timestamp of the call */
+  at: string;
+  /** OAuth client ID of the MCP client; missing for grants from before it was recorded */
+  clientId?: string;
+  tool: string;
+  args: Record<string, unknown>;
+  /** AccessLink requests made, e.g. "GET /users/sleep/2025-01-31"; empty when served from cache or history */
+  endpoints: string[];
+  status: "ok" | "error";
+  /** The tool's error message, shortened */
+  error?: string;
+  durationMs: number;
+}
+
+export interface AccessLogQuery {
+  /** First day (YYYY-MM-DD, UTC) */
+  from?: string;
+  /** Last day (YYYY-MM-DD, UTC), inclusive */
+  to?: string;
+  tool?: string;
+  clientId?: string;
+  /** Most recent entries to return */
+  limit?: number;
+}
+
+export interface AccessLog {
+  record(entry: AccessLogEntry): Promise<void>;
+  /** Matching entries, newest first */
+  query(query: AccessLogQuery): Promise<AccessLogEntry[]>;
+}
+
+export const ACCESS_LOG_DEFAULT_LIMIT = 50;
+export const ACCESS_LOG_MAX_LIMIT = 500;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * The query's days as a half-open range of epoch milliseconds
+ */
+export function accessLogWindow(query: AccessLogQuery): { since: number; until: number } {
+  const since = query.from ? Date.parse(`${query.from}T00:00:00Z`) : 0;
+  const until = query.to ? Date.parse(`${query.to}T00:00:00Z`) + DAY_MS : Number.MAX_SAFE_INTEGER;
+  if (Number.isNaN(since) || Number.isNaN(until)) {
+    throw new Error("Dates must use the YYYY-MM-DD format");
+  }
+  return { since, until };
+}
+
+export function accessLogCutoff(now = Date.now()): number {
+  return now - ACCESS_LOG_RETENTION_DAYS * DAY_MS;
+}
@@ -0,0 +1,28 @@
+/**
+ * Account Deletion
+ * The AccessLink side of "forget me", shared by the delete_my_account tool
+ * and the Worker's /account/delete route. Each deployment erases what it
+ * stores itself (the local history, or the user's Durable Object and OAuth
+ * grants).
+ */
+
+import type { PolarClient } from "./polar-client.js";
+import { PolarNoDataError, PolarUserNotRegisteredError } from "./errors.js";
+
+/**
+ * Deregister the user from this AccessLink client (DELETE /users/{id}).
+ * A user who is already gone is not an error. Without a user id it is
+ * looked up first, which only works while the user is still registered.
+ */
+export async function deregisterPolarUser(client: PolarClient, userId?: number): Promise<string> {
+  try {
+    const id = userId ?? (await client.getUserInfo())["polar-user-id"];
+    await client.deleteUser(id);
+    return `Deregistered Polar user ${id} from AccessLink; Polar no longer shares their data with this server`;
+  } catch (error) {
+    if (error instanceof PolarUserNotRegisteredError || error instanceof PolarNoDataError) {
+      return "The Polar account was already deregistered from AccessLink";
+    }
+    throw error;
+  }
+}
@@ -3,70 +3,152 @@
 /**
  * Polar AccessLink OAuth2 Authentication Helper
  *
- * This script helps you obtain an access token for the Polar AccessLink API.
+ * This script authorizes the app with your Polar account and saves the
+ * access token, Polar user ID and AccessLink member-id to the credentials
+ * file (~/.polar-mcp-server/profiles.json, readable by you only), where the
+ * MCP server and `npm run sync` pick it up. The token is never printed.
  * It starts a local server to handle the OAuth callback.
  *
  * Usage:
  *   1. Set POLAR_CLIENT_ID and POLAR_CLIENT_SECRET environment variables
- *   2. Run: npx tsx src/auth.ts
+ *   2. Run: npm run auth
  *   3. Open the URL in your browser
  *   4. Authorize the application
- *   5. Copy the access token from the output
+ *
+ * Options:
+ *   --profile <name>  Use a named profile (default: "default"), for switching
+ *                     between several Polar accounts in one MCP server
+ *   --encrypt         Encrypt the token with a passphrase; the server then
+ *                     needs it in POLAR_CREDENTIALS_PASSPHRASE
+ *   --status          Show the saved accounts and check their tokens
+ *   --reauth          Authorize again and replace the profile's token
+ *   --logout          Deregister the profile from AccessLink and remove it,
+ *                     offering to delete its synced history as well
+ *
+ * Callback options (for authorizing and --reauth):
+ *   --redirect-uri <uri>  Redirect URI registered for your AccessLink client
+ *                         (default: POLAR_REDIRECT_URI or
+ *                         http://localhost:<port>/callback)
+ *   --port <port>         Port to listen on (default: the redirect URI's, or 8888)
+ *   --timeout <seconds>   How long to wait for the authorization (default: 300)
+ *   --no-browser          Only print the authorization URL
  */
 
 import * as http from "http";
-import * as url from "url";
+import { spawn } from "node:child_process";
+import { createInterface } from "node:readline/promises";
+import { Writable } from "node:stream";
+import { deregisterPolarUser } from "./account.js";
+import { PolarUnauthorizedError, PolarUserNotRegisteredError } from "./errors.js";
+import type { JsonlHistoryStore } from "./history-store.js";
+import { createOAuthState, escapeHtml, exchangeCodeForToken, isExpectedState, polarAuthorizeUrl } from "./oauth.js";
+import type { OAuthClientCredentials } from "./oauth.js";
+import { PolarClient } from "./polar-client.js";
+import {
+  assertProfileName,
+  DEFAULT_PROFILE,
+  encryptToken,
+  openProfileHistory,
+  profilesPath,
+  profileToken,
+  readProfiles,
+  removeProfile,
+  saveProfile,
+} from "./profiles.js";
+import type { Profile } from "./profiles.js";
 
-const POLAR_AUTH_URL = "https://flow.polar.com/oauth2/authorization";
-const POLAR_TOKEN_URL = "https://polarremote.com/v2/oauth2/token";
 const POLAR_REGISTER_URL = "https://www.polaraccesslink.com/v3/users";
-const REDIRECT_URI = "http://localhost:8888/callback";
-
-const clientIdEnv = process.env.POLAR_CLIENT_ID;
-const clientSecretEnv = process.env.POLAR_CLIENT_SECRET;
-
-if (!clientIdEnv || !clientSecretEnv) {
-  console.error("Error: Please set POLAR_CLIENT_ID and POLAR_CLIENT_SECRET environment variables");
-  console.error("");
-  console.error("You can get these from https://admin.polaraccesslink.com/");
-  console.error("");
-  console.error("Example:");
-  console.error("  export POLAR_CLIENT_ID=your_client_id");
-  console.error("  export POLAR_CLIENT_SECRET=your_client_secret");
-  console.error("  npx tsx src/auth.ts");
+const DEFAULT_PORT = 8888;
+const DEFAULT_TIMEOUT_SECONDS = 300;
+
+const args = process.argv.slice(2);
+
+function option(name: string): string | undefined {
+  const index = args.indexOf(name);
+  if (index === -1) return undefined;
+  const value = args[index + 1];
+  if (value === undefined || value.startsWith("--")) {
+    fail(`${name} needs a value`);
+  }
+  return value;
+}
+
+const profileOption = option("--profile");
+const profileName = profileOption ?? DEFAULT_PROFILE;
+try {
+  assertProfileName(profileName);
+} catch (error) {
+  fail(`--profile needs a name, e.g. --profile anna. ${(error as Error).message}`);
+}
+// Repeats the profile in hints, e.g. "npm run auth -- --reauth --profile anna"
+const profileArg = profileName === DEFAULT_PROFILE ? "" : ` --profile ${profileName}`;
+
+const commands = ["--status", "--reauth", "--logout"].filter((command) => args.includes(command));
+if (commands.length > 1) {
+  fail(`Use one of ${commands.join(", ")} at a time`);
+}
+const encrypt = args.includes("--encrypt");
+const callback = callbackSettings();
+
+function fail(message: string): never {
+  console.error(`Error: ${message}`);
   process.exit(1);
 }
 
-const clientId: string = clientIdEnv;
-const clientSecret: string = clientSecretEnv;
+/**
+ * Where Polar redirects back to and how long to wait for it. The redirect
+ * URI must match one registered for the client at admin.polaraccesslink.com.
+ */
+function callbackSettings(): { redirectUri: URL; port: number; timeoutMs: number } {
+  const redirectOption = option("--redirect-uri") ?? process.env.POLAR_REDIRECT_URI;
+  const portOption = option("--port");
 
-async function exchangeCodeForToken(code: string): Promise<{
-  access_token: string;
-  token_type: string;
-  x_user_id: number;
-}> {
-  const credentials = Buffer.from(`${clientId}:${clientSecret}`).toString("base64");
+  let redirectUri: URL | undefined;
+  if (redirectOption) {
+    try {
+      redirectUri = new URL(redirectOption);
+    } catch {
+      fail(`Invalid redirect URI "${redirectOption}"`);
+    }
+    if (redirectUri.protocol !== "http:") {
+      fail("The redirect URI must be an http:// URL that reaches this helper, e.g. http://localhost:8888/callback");
+    }
+  }
 
-  const response = await fetch(POLAR_TOKEN_URL, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/x-www-form-urlencoded",
-      Authorization: `Basic ${credentials}`,
-      Accept: "application/json",
-    },
-    body: new URLSearchParams({
-      grant_type: "authorization_code",
-      code: code,
-      redirect_uri: REDIRECT_URI,
-    }).toString(),
-  });
+  const port = Number(portOption ?? (redirectUri ? redirectUri.port || 80 : DEFAULT_PORT));
+  if (!Number.isInteger(port) || port < 1 || port > 65535) {
+    fail(`Invalid port "${portOption}"`);
+  }
 
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`Token exchange failed: ${response.status} ${errorText}`);
+  const timeoutSeconds = Number(option("--timeout") ?? DEFAULT_TIMEOUT_SECONDS);
+  if (!(timeoutSeconds > 0)) {
+    fail("--timeout needs a number of seconds");
+  }
+
+  return {
+    redirectUri: redirectUri ?? new URL(`http://localhost:${port}/callback`),
+    port,
+    timeoutMs: timeoutSeconds * 1000,
+  };
+}
+
+function clientCredentials(): OAuthClientCredentials {
+  const clientId = process.env.POLAR_CLIENT_ID;
+  const clientSecret = process.env.POLAR_CLIENT_SECRET;
+
+  if (!clientId || !clientSecret) {
+    console.error("Error: Please set POLAR_CLIENT_ID and POLAR_CLIENT_SECRET environment variables");
+    console.error("");
+    console.error("You can get these from https://admin.polaraccesslink.com/");
+    console.error("");
+    console.error("Example:");
+    console.error("  export POLAR_CLIENT_ID=your_client_id");
+    console.error("  export POLAR_CLIENT_SECRET=your_client_secret");
+    console.error("  npm run auth");
+    process.exit(1);
   }
 
-  return response.json();
+  return { clientId, clientSecret };
 }
 
 async function registerUser(accessToken: string, userId: number): Promise<void> {
@@ -96,98 +178,381 @@ async function registerUser(accessToken: string, userId: number): Promise<void>
   console.log("User successfully registered with AccessLink.");
 }
 
-function startServer(): Promise<string> {
+function sendPage(res: http.ServerResponse, status: number, title: string, message: string): void {
+  res.writeHead(status, { "Content-Type": "text/html; charset=utf-8" });
+  res.end(
+    `<!DOCTYPE html><html><head><title>${escapeHtml(title)} - Polar MCP Server</title></head>` +
+      `<body><h1>${escapeHtml(title)}</h1><p>${escapeHtml(message)}</p></body></html>`
+  );
+}
+
+/**
+ * Serve the redirect URI until Polar sends back an authorization code for
+ * our `state`. Requests with another state are refused without ending the
+ * wait, so a page that guesses the callback URL cannot slip in its own code.
+ */
+function waitForCode(state: string): Promise<string> {
+  const { redirectUri, port, timeoutMs } = callback;
+
   return new Promise((resolve, reject) => {
-    const server = http.createServer(async (req, res) => {
-      const parsedUrl = url.parse(req.url || "", true);
-
-      if (parsedUrl.pathname === "/callback") {
-        const code = parsedUrl.query.code as string;
-        const error = parsedUrl.query.error as string;
-
-        if (error) {
-          res.writeHead(400, { "Content-Type": "text/html" });
-          res.end(`<html><body><h1>Error</h1><p>${error}</p></body></html>`);
-          server.close();
-          reject(new Error(error));
-          return;
-        }
-
-        if (code) {
-          res.writeHead(200, { "Content-Type": "text/html" });
-          res.end(
-            "<html><body><h1>Success!</h1><p>You can close this window and return to the terminal.</p></body></html>"
-          );
-          server.close();
-          resolve(code);
-          return;
-        }
+    const finish = (error: Error | undefined, code?: string) => {
+      clearTimeout(timer);
+      server.close();
+      if (error) reject(error);
+      else resolve(code!);
+    };
+
+    const server = http.createServer((req, res) => {
+      const requestUrl = new URL(req.url || "/", redirectUri);
+
+      if (requestUrl.pathname !== redirectUri.pathname) {
+        res.writeHead(404, { "Content-Type": "text/plain" });
+        res.end("Not Found");
+        return;
+      }
+
+      if (!isExpectedState(requestUrl.searchParams.get("state"), state)) {
+        sendPage(res, 400, "Invalid request", "This response does not belong to the authorization started in your terminal.");
+        return;
+      }
+
+      const error = requestUrl.searchParams.get("error");
+      if (error) {
+        const description = requestUrl.searchParams.get("error_description");
+        const message = `Polar returned "${error}"${description ? `: ${description}` : ""}`;
+        sendPage(res, 400, "Authorization failed", `${message}. Return to the terminal and try again.`);
+        finish(new Error(message));
+        return;
       }
 
-      res.writeHead(404, { "Content-Type": "text/plain" });
-      res.end("Not Found");
+      const code = requestUrl.searchParams.get("code");
+      if (!code) {
+        sendPage(res, 400, "Authorization failed", "Polar did not return an authorization code.");
+        finish(new Error("Polar did not return an authorization code"));
+        return;
+      }
+
+      sendPage(res, 200, "Success!", "You can close this window and return to the terminal.");
+      finish(undefined, code);
     });
 
-    server.listen(8888, () => {
-      console.log("Local server started on http://localhost:8888");
+    const timer = setTimeout(
+      () => finish(new Error(`No authorization within ${timeoutMs / 1000} seconds; run the command again`)),
+      timeoutMs
+    );
+
+    const host = listenHost(redirectUri);
+    server.listen(port, host, () => {
+      console.log(`Local server listening on ${host}:${port} for ${redirectUri.toString()}`);
     });
 
     server.on("error", (err) => {
-      reject(err);
+      finish(err);
     });
   });
 }
 
-async function main() {
+/**
+ * Interface the callback server listens on: the redirect URI's host, with
+ * localhost as the IPv4 loopback, so nobody else on the network can reach it
+ */
+function listenHost(redirectUri: URL): string {
+  const host = redirectUri.hostname.replace(/^\[(.*)\]$/, "$1");
+  return host === "localhost" ? "127.0.0.1" : host;
+}
+
+/**
+ * Open the URL in the default browser; false where there is none to open
+ */
+function openBrowser(target: string): boolean {
+  if (args.includes("--no-browser")) return false;
+
+  let command: string;
+  let commandArgs: string[];
+  if (process.platform === "darwin") {
+    [command, commandArgs] = ["open", [target]];
+  } else if (process.platform === "win32") {
+    // Not `start`, which would have cmd.exe interpret the "&" in the URL
+    [command, commandArgs] = ["rundll32", ["url.dll,FileProtocolHandler", target]];
+  } else if (process.env.DISPLAY || process.env.WAYLAND_DISPLAY) {
+    [command, commandArgs] = ["xdg-open", [target]];
+  } else {
+    return false;
+  }
+
+  const child = spawn(command, commandArgs, { stdio: "ignore", detached: true });
+  child.on("error", () => {});
+  child.unref();
+  return true;
+}
+
+/**
+ * Read a passphrase from the terminal without echoing it
+ */
+async function promptHidden(question: string): Promise<string> {
+  if (!process.stdin.isTTY) {
+    throw new Error("No terminal to ask for the passphrase; set POLAR_CREDENTIALS_PASSPHRASE");
+  }
+  process.stdout.write(question);
+  const silent = new Writable({ write: (_chunk, _encoding, done) => done() });
+  const rl = createInterface({ input: process.stdin, output: silent, terminal: true });
+  try {
+    return await rl.question("");
+  } finally {
+    rl.close();
+    process.stdout.write("\n");
+  }
+}
+
+/**
+ * Ask a question on the terminal and return the answer
+ */
+async function prompt(question: string): Promise<string> {
+  const rl = createInterface({ input: process.stdin, output: process.stdout });
+  try {
+    return await rl.question(question);
+  } finally {
+    rl.close();
+  }
+}
+
+/**
+ * Passphrase for a newly encrypted token, from POLAR_CREDENTIALS_PASSPHRASE
+ * or typed twice
+ */
+async function newPassphrase(): Promise<string> {
+  const fromEnv = process.env.POLAR_CREDENTIALS_PASSPHRASE;
+  if (fromEnv) return fromEnv;
+
+  const passphrase = await promptHidden("Passphrase to encrypt the token: ");
+  if (passphrase.length < 8) {
+    throw new Error("Use a passphrase of at least 8 characters");
+  }
+  if ((await promptHidden("Repeat the passphrase: ")) !== passphrase) {
+    throw new Error("The passphrases do not match");
+  }
+  return passphrase;
+}
+
+/**
+ * Passphrase of an encrypted profile, checked by decrypting its token
+ */
+async function existingPassphrase(name: string, profile: Profile): Promise<string> {
+  const passphrase =
+    process.env.POLAR_CREDENTIALS_PASSPHRASE ?? (await promptHidden(`Passphrase for profile "${name}": `));
+  profileToken(name, profile, passphrase);
+  return passphrase;
+}
+
+async function storedToken(name: string, profile: Profile): Promise<string> {
+  const passphrase = profile.encryptedToken ? await existingPassphrase(name, profile) : undefined;
+  return profileToken(name, profile, passphrase);
+}
+
+interface Credentials {
+  accessToken: string;
+  userId: number;
+  memberId?: string;
+}
+
+/**
+ * Run the OAuth flow and register the user with AccessLink
+ */
+async function authorize(): Promise<Credentials> {
+  const client = clientCredentials();
+
   console.log("╔════════════════════════════════════════════════════════════╗");
   console.log("║     Polar AccessLink OAuth2 Authentication Helper         ║");
   console.log("╚════════════════════════════════════════════════════════════╝");
   console.log("");
 
-  const authUrl = new URL(POLAR_AUTH_URL);
-  authUrl.searchParams.set("response_type", "code");
-  authUrl.searchParams.set("client_id", clientId);
-  authUrl.searchParams.set("redirect_uri", REDIRECT_URI);
+  const state = createOAuthState();
+  const authUrl = polarAuthorizeUrl(client.clientId, callback.redirectUri.toString(), state);
+  // Listen before the browser opens, so a quick redirect cannot beat the server
+  const pendingCode = waitForCode(state);
 
-  console.log("Step 1: Open this URL in your browser to authorize:");
+  if (openBrowser(authUrl)) {
+    console.log("Step 1: Authorize in the browser window that just opened, or open this URL:");
+  } else {
+    console.log("Step 1: Open this URL in your browser to authorize:");
+  }
   console.log("");
-  console.log(`  ${authUrl.toString()}`);
+  console.log(`  ${authUrl}`);
   console.log("");
   console.log("Waiting for authorization...");
   console.log("");
 
+  const code = await pendingCode;
+  console.log("Authorization code received!");
+  console.log("");
+  console.log("Step 2: Exchanging code for access token...");
+
+  const tokenData = await exchangeCodeForToken(code, client, callback.redirectUri.toString());
+  console.log("");
+  console.log("Step 3: Registering user with AccessLink...");
+  await registerUser(tokenData.access_token, tokenData.x_user_id);
+
+  // An earlier registration may have used another member-id, so ask AccessLink
+  let memberId: string | undefined;
   try {
-    const code = await startServer();
-    console.log("Authorization code received!");
-    console.log("");
-    console.log("Step 2: Exchanging code for access token...");
+    memberId = (await new PolarClient(tokenData.access_token).getUserInfo())["member-id"] ?? undefined;
+  } catch (error) {
+    console.warn(`Could not read the registered member-id: ${(error as Error).message}`);
+  }
 
-    const tokenData = await exchangeCodeForToken(code);
-    console.log("");
-    console.log("Step 3: Registering user with AccessLink...");
-    await registerUser(tokenData.access_token, tokenData.x_user_id);
+  console.log("");
+  console.log("╔════════════════════════════════════════════════════════════╗");
+  console.log("║                    SUCCESS!                                ║");
+  console.log("╚════════════════════════════════════════════════════════════╝");
+  console.log("");
 
+  return { accessToken: tokenData.access_token, userId: tokenData.x_user_id, memberId };
+}
+
+async function saveCredentials(credentials: Credentials, passphrase: string | undefined): Promise<void> {
+  const path = profilesPath();
+  const file = await saveProfile(path, profileName, {
+    ...(passphrase
+      ? { encryptedToken: encryptToken(credentials.accessToken, passphrase) }
+      : { accessToken: credentials.accessToken }),
+    userId: credentials.userId,
+    memberId: credentials.memberId,
+  });
+
+  const protection = passphrase ? "token encrypted, file readable by you only" : "readable by you only";
+  console.log(`Saved Polar user ${credentials.userId} as profile "${profileName}" to ${path} (${protection})`);
+  if (Object.keys(file.profiles).length > 1) {
+    console.log(`Profiles: ${Object.keys(file.profiles).join(", ")} (default: ${file.default})`);
+  }
+  console.log("");
+  console.log("The MCP server picks up the credentials file on its next start.");
+  console.log("Remove POLAR_ACCESS_TOKEN from your MCP client config if it is there; it overrides the file.");
+  if (passphrase) {
+    console.log("Set POLAR_CREDENTIALS_PASSPHRASE in the MCP server's environment so it can decrypt the token.");
+  }
+  console.log("");
+}
+
+async function login(): Promise<void> {
+  const existing = (await readProfiles(profilesPath()))?.profiles[profileName];
+  if (existing) {
+    fail(
+      `Profile "${profileName}" is already saved in ${profilesPath()}. ` +
+        `Use \`npm run auth -- --reauth${profileArg}\` to replace its token, or --logout first.`
+    );
+  }
+  // Ask before the browser round trip, so a typo does not waste it
+  const passphrase = encrypt ? await newPassphrase() : undefined;
+  await saveCredentials(await authorize(), passphrase);
+}
+
+async function reauth(): Promise<void> {
+  const existing = (await readProfiles(profilesPath()))?.profiles[profileName];
+  if (!existing) {
+    fail(`No profile "${profileName}" in ${profilesPath()}; run \`npm run auth${profileArg && ` --${profileArg}`}\` first`);
+  }
+  // An encrypted profile stays encrypted with the same passphrase, which the server already has
+  const passphrase = existing.encryptedToken
+    ? await existingPassphrase(profileName, existing)
+    : encrypt
+      ? await newPassphrase()
+      : undefined;
+
+  const credentials = await authorize();
+  if (existing.userId !== undefined && existing.userId !== credentials.userId) {
+    console.warn(`Note: profile "${profileName}" was Polar user ${existing.userId} and is now Polar user ${credentials.userId}`);
+  }
+  await saveCredentials(credentials, passphrase);
+}
+
+async function checkToken(name: string, profile: Profile): Promise<string> {
+  const passphrase = process.env.POLAR_CREDENTIALS_PASSPHRASE;
+  if (profile.encryptedToken && !passphrase) {
+    return "not checked (set POLAR_CREDENTIALS_PASSPHRASE to check an encrypted token)";
+  }
+  try {
+    await new PolarClient(profileToken(name, profile, passphrase)).getUserInfo();
+    return "valid";
+  } catch (error) {
+    const reauthorize = `run \`npm run auth -- --reauth${name === DEFAULT_PROFILE ? "" : ` --profile ${name}`}\``;
+    if (error instanceof PolarUnauthorizedError) return `rejected by Polar; ${reauthorize}`;
+    if (error instanceof PolarUserNotRegisteredError) return `not registered with AccessLink; ${reauthorize}`;
+    return `could not check: ${(error as Error).message}`;
+  }
+}
+
+async function status(): Promise<void> {
+  const path = profilesPath();
+  const file = await readProfiles(path);
+  console.log(`Credentials file: ${path}`);
+  if (process.env.POLAR_ACCESS_TOKEN) {
+    console.log("POLAR_ACCESS_TOKEN is set in this environment and overrides the credentials file.");
+  }
+
+  const names = profileOption === undefined ? Object.keys(file?.profiles ?? {}) : [profileName];
+  if (names.length === 0) {
+    console.log("No Polar accounts saved; run `npm run auth` to add one.");
+    return;
+  }
+
+  for (const name of names) {
+    const profile = file?.profiles[name];
+    if (!profile) {
+      fail(`No profile "${name}" in ${path}`);
+    }
     console.log("");
-    console.log("╔════════════════════════════════════════════════════════════╗");
-    console.log("║                    SUCCESS!                                ║");
-    console.log("╚════════════════════════════════════════════════════════════╝");
-    console.log("");
-    console.log("Your access token:");
-    console.log("");
-    console.log(`  ${tokenData.access_token}`);
-    console.log("");
-    console.log("Add this to your Claude Desktop config or environment:");
-    console.log("");
-    console.log(`  export POLAR_ACCESS_TOKEN="${tokenData.access_token}"`);
-    console.log("");
-    console.log("Or add to your Claude Desktop config.json:");
-    console.log("");
-    console.log(`  "env": {`);
-    console.log(`    "POLAR_ACCESS_TOKEN": "${tokenData.access_token}"`);
-    console.log(`  }`);
-    console.log("");
+    console.log(`${name}${name === file?.default ? " (default)" : ""}`);
+    console.log(`  Polar user: ${profile.userId ?? "unknown"}`);
+    console.log(`  member-id:  ${profile.memberId ?? "unknown"}`);
+    console.log(`  Token:      ${profile.encryptedToken ? "encrypted" : "not encrypted"}, ${await checkToken(name, profile)}`);
+  }
+}
+
+async function logout(): Promise<void> {
+  const path = profilesPath();
+  const profile = (await readProfiles(path))?.profiles[profileName];
+  if (!profile) {
+    fail(`No profile "${profileName}" in ${path}`);
+  }
+
+  const accessToken = await storedToken(profileName, profile);
+  try {
+    console.log(await deregisterPolarUser(new PolarClient(accessToken), profile.userId));
+  } catch (error) {
+    console.warn(`Could not deregister from AccessLink: ${(error as Error).message}`);
+    console.warn("Removing the saved credentials anyway; disconnect the app in your Polar account settings as well.");
+  }
+
+  await removeProfile(path, profileName);
+  console.log(`Removed profile "${profileName}" from ${path}`);
+  await removeHistory(openProfileHistory(process.env, profileName));
+}
+
+/**
+ * Offer to delete a removed profile's synced history. Without a terminal to
+ * ask on, it is kept and its location printed.
+ */
+async function removeHistory(history: JsonlHistoryStore | undefined): Promise<void> {
+  if (!history) return;
+  const answer = process.stdin.isTTY ? await prompt(`Also delete the synced history in ${history.dir}? [y/N] `) : "";
+  if (!/^y(es)?$/i.test(answer.trim())) {
+    console.log(
+      `Synced history is kept in ${history.dir}: one .jsonl file per record type, the activity-samples directory and sync-state.json. Delete those to remove it.`
+    );
+    return;
+  }
+  const removed = await history.clear();
+  console.log(removed.length > 0 ? `Deleted the synced history in ${history.dir}` : "There was no synced history to delete");
+}
+
+async function main() {
+  try {
+    if (commands[0] === "--status") await status();
+    else if (commands[0] === "--reauth") await reauth();
+    else if (commands[0] === "--logout") await logout();
+    else await login();
   } catch (error) {
-    console.error("Authentication failed:", error);
+    console.error("Authentication failed:", error instanceof Error ? error.message : error);
     process.exit(1);
   }
 }
@@ -0,0 +1,509 @@
+import { Hono } from "hono";
+import type { Context } from "hono";
+import { getCookie, setCookie, deleteCookie } from "hono/cookie";
+import type { Env } from "../types.js";
+import { ACCESS_LOG_RETENTION_DAYS } from "../access-log.js";
+import type { AccessLogEntry } from "../access-log.js";
+import { deregisterPolarUser } from "../account.js";
+import { DATA_CATEGORY_LABELS, isDataCategory } from "../consent.js";
+import type { DataCategory } from "../consent.js";
+import { escapeHtml, exchangeCodeForToken } from "../oauth.js";
+import { PolarClient } from "../polar-client.js";
+import { openToken, sealToken } from "../token-encryption.js";
+import type { SealedToken } from "../token-encryption.js";
+import { eraseUser, userAccessLog, userData } from "../user-data.js";
+import type { UserDataSummary } from "../user-data.js";
+import { constantTimeEqual } from "../webhooks.js";
+import { readApprovals, redirectToPolar, polarClientCredentials, writeApprovals } from "./oauth-utils.js";
+
+/**
+ * Double-submit token for the /account forms. The cookie is SameSite=Strict,
+ * so another site cannot post them. It does not cover the Polar sign-in the
+ * forms lead to (which may not even prompt): /callback checks the state
+ * cookie set by redirectToPolar, and deletion asks once more afterwards.
+ */
+const CONFIRM_COOKIE = "polar-account-confirm";
+
+/**
+ * The signed-in /account area. Signing in goes through Polar like an MCP
+ * client's authorization; the session is a random ID in a cookie, mapped to
+ * the Polar user ID in KV for an hour. The cookie is SameSite=Lax because the
+ * browser arrives from Polar's redirect, so the forms still need the confirm
+ * token above.
+ */
+const SESSION_COOKIE = "polar-account-session";
+const SESSION_TTL_SECONDS = 60 * 60;
+
+/** How long the final deletion confirmation stays valid */
+const DELETION_TTL_SECONDS = 600;
+
+/** Pages /account/login may return to */
+const ACCOUNT_PAGES = ["/account", "/account/activity"];
+
+/** Entries shown on /account/activity; get_access_log can page further back */
+const ACTIVITY_PAGE_ENTRIES = 200;
+
+const app = new Hono<{ Bindings: Env }>();
+
+function issueConfirmToken(c: Context<{ Bindings: Env }>): string {
+  const token = crypto.randomUUID();
+  setCookie(c, CONFIRM_COOKIE, token, {
+    httpOnly: true,
+    secure: true,
+    sameSite: "Strict",
+    path: "/account",
+    maxAge: 600,
+  });
+  return token;
+}
+
+function confirmTokenValid(c: Context<{ Bindings: Env }>, form: FormData): boolean {
+  const token = form.get("confirm_token");
+  const expected = getCookie(c, CONFIRM_COOKIE);
+  return typeof token === "string" && !!expected && constantTimeEqual(token, expected);
+}
+
+/**
+ * Polar user ID of the signed-in session, if any
+ */
+async function sessionUser(c: Context<{ Bindings: Env }>): Promise<number | undefined> {
+  const sessionId = getCookie(c, SESSION_COOKIE);
+  if (!sessionId) return undefined;
+  const stored = await c.env.OAUTH_KV.get(`account_session:${sessionId}`);
+  return stored ? (JSON.parse(stored) as { userId: number }).userId : undefined;
+}
+
+async function startSession(c: Context<{ Bindings: Env }>, userId: number): Promise<void> {
+  const sessionId = crypto.randomUUID();
+  await c.env.OAUTH_KV.put(`account_session:${sessionId}`, JSON.stringify({ userId }), {
+    expirationTtl: SESSION_TTL_SECONDS,
+  });
+  setCookie(c, SESSION_COOKIE, sessionId, {
+    httpOnly: true,
+    secure: true,
+    sameSite: "Lax",
+    path: "/account",
+    maxAge: SESSION_TTL_SECONDS,
+  });
+}
+
+async function endSession(c: Context<{ Bindings: Env }>): Promise<void> {
+  const sessionId = getCookie(c, SESSION_COOKIE);
+  if (sessionId) {
+    await c.env.OAUTH_KV.delete(`account_session:${sessionId}`);
+  }
+  deleteCookie(c, SESSION_COOKIE, { path: "/account", secure: true });
+}
+
+// GET /account - Connected clients and stored data, or a sign-in page
+app.get("/", async (c) => {
+  const userId = await sessionUser(c);
+  if (userId === undefined) {
+    return c.html(page("Your account", signInPageBody()));
+  }
+
+  const owner = String(userId);
+  const grants = [];
+  let cursor: string | undefined;
+  do {
+    const result = await c.env.OAUTH_PROVIDER.listUserGrants(owner, { cursor });
+    grants.push(...result.items);
+    cursor = result.cursor;
+  } while (cursor);
+
+  const clients = await Promise.all(
+    grants.map(async (grant) => ({
+      grantId: grant.id,
+      clientId: grant.clientId,
+      name: (await c.env.OAUTH_PROVIDER.lookupClient(grant.clientId))?.clientName,
+      categories: Array.isArray(grant.metadata?.categories)
+        ? (grant.metadata.categories as unknown[]).filter(isDataCategory)
+        : undefined,
+      createdAt: grant.createdAt,
+    }))
+  );
+  const summary = await userData(c.env, userId).summary();
+  return c.html(page("Your account", accountPageBody(userId, clients, summary, issueConfirmToken(c))));
+});
+
+// GET /account/login - Sign in with Polar; /callback starts the session and returns to ?return=
+app.get("/login", (c) => {
+  const returnTo = c.req.query("return");
+  return redirectToPolar(c, {
+    action: "account-login",
+    returnTo: returnTo && ACCOUNT_PAGES.includes(returnTo) ? returnTo : "/account",
+  });
+});
+
+// POST /account/logout - End the session
+app.post("/logout", async (c) => {
+  if (!confirmTokenValid(c, await c.req.formData())) {
+    return c.text("Confirmation expired, please open /account again", 400);
+  }
+  await endSession(c);
+  return c.redirect("/account", 303);
+});
+
+// POST /account/grants/revoke - Disconnect one MCP client (grant_id)
+app.post("/grants/revoke", async (c) => {
+  const userId = await sessionUser(c);
+  if (userId === undefined) {
+    return c.redirect("/account", 303);
+  }
+  const form = await c.req.formData();
+  const grantId = form.get("grant_id");
+  if (!confirmTokenValid(c, form) || typeof grantId !== "string") {
+    return c.text("Confirmation expired, please open /account again", 400);
+  }
+  // Scoped to the signed-in user, so another user's grant ID revokes nothing
+  await c.env.OAUTH_PROVIDER.revokeGrant(grantId, String(userId));
+  return c.redirect("/account", 303);
+});
+
+// GET /account/delete - Explain what is deleted and ask for confirmation
+app.get("/delete", (c) => {
+  return c.html(page("Delete my data", deletePageBody(issueConfirmToken(c))));
+});
+
+// POST /account/delete - Have the user sign in with Polar; /callback then asks for the final confirmation
+app.post("/delete", async (c) => {
+  if (!confirmTokenValid(c, await c.req.formData())) {
+    return c.text("Confirmation expired, please open /account/delete again", 400);
+  }
+  deleteCookie(c, CONFIRM_COOKIE, { path: "/account", secure: true });
+  return redirectToPolar(c, { action: "delete-account" });
+});
+
+// POST /account/delete/confirm - Delete the account the Polar sign-in proved (deletion_id)
+app.post("/delete/confirm", async (c) => {
+  const form = await c.req.formData();
+  const deletionId = form.get("deletion_id");
+  if (!confirmTokenValid(c, form) || typeof deletionId !== "string") {
+    return c.text("Confirmation expired, please open /account/delete again", 400);
+  }
+  const stored = await c.env.OAUTH_KV.get(`account_deletion:${deletionId}`);
+  if (!stored) {
+    return c.text("Confirmation expired, please open /account/delete again", 400);
+  }
+
+  const { userId, sealedToken } = JSON.parse(stored) as PendingDeletion;
+  let erased: string[];
+  try {
+    const accessToken = await openToken(c.env, sealedToken, userId);
+    erased = [await deregisterPolarUser(new PolarClient(accessToken), userId), ...(await eraseUser(c.env, userId))];
+  } catch (error) {
+    // The pending deletion stays, so trying again needs no new Polar sign-in; both steps are safe to repeat
+    console.error(`Could not delete Polar user ${userId}:`, error);
+    const reason = error instanceof Error ? error.message : String(error);
+    return c.html(
+      page("Delete my data", confirmDeletionPageBody(userId, deletionId, issueConfirmToken(c), reason)),
+      502
+    );
+  }
+  await c.env.OAUTH_KV.delete(`account_deletion:${deletionId}`);
+  deleteCookie(c, CONFIRM_COOKIE, { path: "/account", secure: true });
+  await endSession(c);
+
+  const items = erased.map((line) => `<li>${escapeHtml(line)}</li>`).join("\n        ");
+  return c.html(
+    page(
+      "Your data was deleted",
+      `<p>Polar user ${userId} has been disconnected from this server:</p>
+      <ul>
+        ${items}
+      </ul>
+      <p>Remove the server from your MCP client as well. Your data in Polar Flow is not affected.</p>`
+    )
+  );
+});
+
+// GET /account/activity - Which MCP clients called which tools on the user's data
+app.get("/activity", async (c) => {
+  const userId = await sessionUser(c);
+  if (userId === undefined) {
+    return c.redirect("/account/login?return=/account/activity", 302);
+  }
+
+  const entries = await userAccessLog(c.env, userId).query({ limit: ACTIVITY_PAGE_ENTRIES });
+  const clientNames = new Map<string, string | undefined>();
+  for (const clientId of new Set(entries.map((entry) => entry.clientId))) {
+    if (clientId) {
+      clientNames.set(clientId, (await c.env.OAUTH_PROVIDER.lookupClient(clientId))?.clientName);
+    }
+  }
+  return c.html(page("Activity", activityPageBody(userId, entries, clientNames)));
+});
+
+// GET /account/approvals - MCP clients this browser lets skip the approval dialog
+app.get("/approvals", async (c) => {
+  const approvals = await readApprovals(c);
+  const clients = await Promise.all(
+    Object.entries(approvals).map(async ([clientId, approval]) => ({
+      clientId,
+      name: (await c.env.OAUTH_PROVIDER.lookupClient(clientId))?.clientName,
+      ...approval,
+    }))
+  );
+  return c.html(page("Remembered approvals", approvalsPageBody(clients, issueConfirmToken(c), !!c.env.COOKIE_SIGNING_KEY)));
+});
+
+// POST /account/approvals - Forget one client (client_id) or all of them
+app.post("/approvals", async (c) => {
+  const form = await c.req.formData();
+  if (!confirmTokenValid(c, form)) {
+    return c.text("Confirmation expired, please open /account/approvals again", 400);
+  }
+
+  const clientId = form.get("client_id");
+  const approvals = await readApprovals(c);
+  if (typeof clientId === "string") {
+    delete approvals[clientId];
+  }
+  await writeApprovals(c, typeof clientId === "string" ? approvals : {});
+  return c.redirect("/account/approvals", 303);
+});
+
+/** A deletion the Polar sign-in proved, waiting for the user's final confirmation */
+interface PendingDeletion {
+  userId: number;
+  sealedToken: SealedToken;
+}
+
+/**
+ * Second half of /account/delete, called from /callback with the code Polar
+ * returned: the exchange proves which account it is, then the user confirms
+ * once more on /account/delete/confirm before anything is deleted
+ */
+export async function confirmAccountDeletion(c: Context<{ Bindings: Env }>, code: string): Promise<Response> {
+  const callbackUrl = `${new URL(c.req.url).origin}/callback`;
+  const tokenData = await exchangeCodeForToken(code, polarClientCredentials(c.env), callbackUrl);
+
+  const deletionId = crypto.randomUUID();
+  const pending: PendingDeletion = {
+    userId: tokenData.x_user_id,
+    sealedToken: await sealToken(c.env, tokenData.access_token, tokenData.x_user_id),
+  };
+  await c.env.OAUTH_KV.put(`account_deletion:${deletionId}`, JSON.stringify(pending), {
+    expirationTtl: DELETION_TTL_SECONDS,
+  });
+  return c.html(page("Delete my data", confirmDeletionPageBody(tokenData.x_user_id, deletionId, issueConfirmToken(c))));
+}
+
+/**
+ * Second half of /account/login, called from /callback with the code Polar
+ * returned (only for the browser that started the sign-in, see
+ * redirectToPolar): the exchange proves who the user is, then the session starts
+ */
+export async function completeAccountLogin(
+  c: Context<{ Bindings: Env }>,
+  code: string,
+  returnTo: string
+): Promise<Response> {
+  const callbackUrl = `${new URL(c.req.url).origin}/callback`;
+  const tokenData = await exchangeCodeForToken(code, polarClientCredentials(c.env), callbackUrl);
+  await startSession(c, tokenData.x_user_id);
+  return c.redirect(ACCOUNT_PAGES.includes(returnTo) ? returnTo : "/account", 303);
+}
+
+function activityPageBody(userId: number, entries: AccessLogEntry[], clientNames: Map<string, string | undefined>): string {
+  if (entries.length === 0) {
+    return `<p>No MCP client has used the data of Polar user ${userId} through this server in the last ${ACCESS_LOG_RETENTION_DAYS} days.</p>`;
+  }
+
+  const rows = entries
+    .map((entry) => {
+      const client = entry.clientId
+        ? `${escapeHtml(clientNames.get(entry.clientId) ?? "Unnamed client")} <code>${escapeHtml(entry.clientId)}</code>`
+        : "Unknown client";
+      const args = Object.keys(entry.args).length > 0 ? ` <code>${escapeHtml(JSON.stringify(entry.args))}</code>` : "";
+      const endpoints =
+        entry.endpoints.length > 0
+          ? entry.endpoints.map((endpoint) => `<code>${escapeHtml(endpoint)}</code>`).join(", ")
+          : "none (cached or stored data)";
+      const outcome =
+        entry.status === "ok" ? `ok in ${entry.durationMs} ms` : `failed: ${escapeHtml(entry.error ?? "error")}`;
+      return `<li>
+        ${escapeHtml(entry.at.slice(0, 19).replace("T", " "))} UTC · ${client}<br />
+        <strong>${escapeHtml(entry.tool)}</strong>${args}<br />
+        Polar requests: ${endpoints}<br />
+        ${outcome}
+      </li>`;
+    })
+    .join("\n      ");
+  return `<p>Tool calls MCP clients made on the data of Polar user ${userId}, newest first (the last ${entries.length}; entries are kept for ${ACCESS_LOG_RETENTION_DAYS} days). The <code>get_access_log</code> tool returns the same log.</p>
+    <ul>
+      ${rows}
+    </ul>
+    <p>To cut a client off, remove it from your MCP client, or <a href="/account/delete">delete your data</a> to revoke every client.</p>`;
+}
+
+function signInPageBody(): string {
+  return `<p>Sign in with your Polar account to see which MCP clients are connected to your data, disconnect them, see what this server stores about you and delete it.</p>
+    <div class="actions">
+      <a class="btn" href="/account/login">Sign in with Polar</a>
+    </div>`;
+}
+
+function accountPageBody(
+  userId: number,
+  clients: { grantId: string; clientId: string; name?: string; categories?: DataCategory[]; createdAt: number }[],
+  summary: UserDataSummary,
+  token: string
+): string {
+  const rows = clients
+    .map(
+      ({ grantId, clientId, name, categories, createdAt }) => `<li>
+        <strong>${escapeHtml(name ?? "Unnamed client")}</strong> <code>${escapeHtml(clientId)}</code><br />
+        Reads: ${categories ? categories.map((category) => escapeHtml(DATA_CATEGORY_LABELS[category])).join("; ") : "all data (connected before data choices)"}<br />
+        Connected ${new Date(createdAt * 1000).toISOString().slice(0, 10)}
+        <form method="POST" action="/account/grants/revoke" class="inline">
+          <input type="hidden" name="confirm_token" value="${escapeHtml(token)}" />
+          <input type="hidden" name="grant_id" value="${escapeHtml(grantId)}" />
+          <button type="submit" class="link">Disconnect</button>
+        </form>
+      </li>`
+    )
+    .join("\n      ");
+  const lastUpdate = summary.lastHistoryUpdate
+    ? `${escapeHtml(summary.lastHistoryUpdate.slice(0, 16).replace("T", " "))} UTC`
+    : "never";
+
+  return `<p>Signed in as Polar user ${userId}.</p>
+
+    <h2>Connected MCP clients</h2>
+    ${
+      clients.length > 0
+        ? `<ul>
+      ${rows}
+    </ul>
+    <p>Disconnecting revokes the client's access at once; it has to ask for your approval again to reconnect.</p>`
+        : "<p>No MCP client is connected to your Polar data.</p>"
+    }
+
+    <h2>Stored data</h2>
+    <ul>
+      <li>History: ${summary.historyRecords} records, last updated ${lastUpdate}</li>
+      <li>Cache: ${summary.cachedResults} tool results, ${formatBytes(summary.cacheBytes)}</li>
+      <li>Access log: ${summary.accessLogEntries} tool calls (<a href="/account/activity">view</a>)</li>
+    </ul>
+
+    <h2>More</h2>
+    <ul>
+      <li><a href="/account/approvals">Approvals remembered by this browser</a></li>
+      <li><a href="/account/delete">Delete my data</a></li>
+    </ul>
+
+    <form method="POST" action="/account/logout">
+      <input type="hidden" name="confirm_token" value="${escapeHtml(token)}" />
+      <div class="actions">
+        <button type="submit" class="btn">Sign out</button>
+      </div>
+    </form>`;
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} bytes`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function deletePageBody(token: string): string {
+  return `<p>This permanently deletes everything this server stores about you and disconnects your Polar account:</p>
+    <ul>
+      <li>Deregisters your account from this server's Polar AccessLink client</li>
+      <li>Revokes every MCP client's access to this server</li>
+      <li>Erases your stored Polar token, cached results, history and session data</li>
+    </ul>
+    <p>Your data in Polar Flow is not affected. You will be asked to sign in with Polar to prove it is your account.</p>
+
+    <form method="POST" action="/account/delete">
+      <input type="hidden" name="confirm_token" value="${escapeHtml(token)}" />
+      <div class="actions">
+        <button type="submit" class="btn">Sign in with Polar and delete</button>
+      </div>
+    </form>`;
+}
+
+function confirmDeletionPageBody(userId: number, deletionId: string, token: string, failure?: string): string {
+  return `<p>You signed in as Polar user ${userId}. Delete everything this server stores about this account and disconnect it? This cannot be undone.</p>
+    ${failure ? `<p><strong>Deleting failed: ${escapeHtml(failure)}</strong> Try again in a moment.</p>` : ""}
+
+    <form method="POST" action="/account/delete/confirm">
+      <input type="hidden" name="confirm_token" value="${escapeHtml(token)}" />
+      <input type="hidden" name="deletion_id" value="${escapeHtml(deletionId)}" />
+      <div class="actions">
+        <button type="submit" class="btn">Delete my data</button>
+        <a href="/account">Cancel</a>
+      </div>
+    </form>`;
+}
+
+function approvalsPageBody(
+  clients: { clientId: string; name?: string; expires: number; categories: DataCategory[] }[],
+  token: string,
+  enabled: boolean
+): string {
+  if (!enabled) {
+    return "<p>This server does not remember approvals; every MCP client asks for your approval each time it connects.</p>";
+  }
+  if (clients.length === 0) {
+    return "<p>This browser has no remembered approvals. MCP clients will ask for your approval when they connect.</p>";
+  }
+
+  const rows = clients
+    .map(
+      ({ clientId, name, expires, categories }) => `<li>
+        <strong>${escapeHtml(name ?? "Unnamed client")}</strong> <code>${escapeHtml(clientId)}</code><br />
+        Reads: ${categories.map((category) => escapeHtml(DATA_CATEGORY_LABELS[category])).join("; ")}<br />
+        Until ${new Date(expires * 1000).toISOString().slice(0, 10)}
+        <form method="POST" action="/account/approvals" class="inline">
+          <input type="hidden" name="confirm_token" value="${escapeHtml(token)}" />
+          <input type="hidden" name="client_id" value="${escapeHtml(clientId)}" />
+          <button type="submit" class="link">Forget</button>
+        </form>
+      </li>`
+    )
+    .join("\n      ");
+  return `<p>These MCP clients skip the approval dialog in this browser and go straight to Polar sign-in. Forgetting one makes it ask again next time; it does not disconnect a client that is already connected.</p>
+    <ul>
+      ${rows}
+    </ul>
+
+    <form method="POST" action="/account/approvals">
+      <input type="hidden" name="confirm_token" value="${escapeHtml(token)}" />
+      <div class="actions">
+        <button type="submit" class="btn">Forget all</button>
+      </div>
+    </form>`;
+}
+
+function page(title: string, body: string): string {
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <title>${escapeHtml(title)} - Polar MCP Server</title>
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <style>
+    * { box-sizing: border-box; }
+    body { font-family: system-ui, -apple-system, sans-serif; max-width: 500px; margin: 0 auto; padding: 40px 20px; line-height: 1.6; background: #fafafa; }
+    .card { background: white; border-radius: 12px; padding: 32px; box-shadow: 0 1px 3px rgba(0,0,0,0.1); }
+    h1 { color: #d93636; margin: 0 0 16px 0; font-size: 24px; }
+    h2 { color: #333; margin: 24px 0 8px 0; font-size: 18px; }
+    li { margin: 4px 0; color: #444; }
+    .btn { display: inline-block; text-decoration: none; background: #d93636; color: white; padding: 12px 24px; border: none; border-radius: 8px; font-weight: 600; font-size: 16px; cursor: pointer; transition: background 0.2s; }
+    .btn:hover { background: #b82e2e; }
+    .actions { margin-top: 24px; }
+    .inline { display: inline; }
+    .link { background: none; border: none; padding: 0; color: #d93636; text-decoration: underline; cursor: pointer; font-size: inherit; }
+  </style>
+</head>
+<body>
+  <div class="card">
+    <h1>${escapeHtml(title)}</h1>
+    ${body}
+  </div>
+</body>
+</html>`;
+}
+
+export const AccountHandler = app;
@@ -0,0 +1,133 @@
+import { Hono } from "hono";
+import type { Context } from "hono";
+import type { Env } from "../types.js";
+import { PolarWebhookClient } from "../polar-client.js";
+import type { WebhookSettings } from "../polar-client.js";
+import type { WebhookInfo } from "../polar-models.js";
+import { PolarApiError, PolarNoDataError } from "../errors.js";
+import { constantTimeEqual, rotateWebhook, WEBHOOK_EVENT_TYPES } from "../webhooks.js";
+
+const WEBHOOK_SECRET_KEY = "webhook:secret";
+const PREVIOUS_WEBHOOK_SECRET_KEY = "webhook:previous_secret";
+
+/** How long the old secret stays valid after a rotation, for deliveries already in flight */
+const PREVIOUS_SECRET_TTL_SECONDS = 3600;
+
+/**
+ * Secrets /webhook accepts: the one stored by these routes, the one it
+ * replaced (briefly) and the POLAR_WEBHOOK_SECRET Worker secret
+ */
+export async function webhookSecrets(env: Env): Promise<string[]> {
+  const [current, previous] = await Promise.all([
+    env.OAUTH_KV.get(WEBHOOK_SECRET_KEY),
+    env.OAUTH_KV.get(PREVIOUS_WEBHOOK_SECRET_KEY),
+  ]);
+  return [current, previous, env.POLAR_WEBHOOK_SECRET].filter((secret): secret is string => !!secret);
+}
+
+async function storeWebhookSecret(env: Env, secret: string): Promise<void> {
+  const current = await env.OAUTH_KV.get(WEBHOOK_SECRET_KEY);
+  if (current) {
+    await env.OAUTH_KV.put(PREVIOUS_WEBHOOK_SECRET_KEY, current, { expirationTtl: PREVIOUS_SECRET_TTL_SECONDS });
+  }
+  await env.OAUTH_KV.put(WEBHOOK_SECRET_KEY, secret);
+}
+
+/** Never echo the signature secret back over HTTP */
+function publicInfo({ signature_secret_key, ...webhook }: WebhookInfo, secretStored: boolean) {
+  return { ...webhook, secretStored: secretStored || !!signature_secret_key };
+}
+
+function webhookClient(env: Env): PolarWebhookClient {
+  return new PolarWebhookClient(env.POLAR_CLIENT_ID, env.POLAR_CLIENT_SECRET);
+}
+
+async function readSettings(c: Context<{ Bindings: Env }>): Promise<WebhookSettings> {
+  const body = (await c.req.json().catch(() => ({}))) as WebhookSettings;
+  return {
+    url: typeof body.url === "string" ? body.url : undefined,
+    events: Array.isArray(body.events) ? body.events.map(String) : undefined,
+  };
+}
+
+const app = new Hono<{ Bindings: Env }>();
+
+// Every admin route requires `Authorization: Bearer <ADMIN_TOKEN>`; without ADMIN_TOKEN they do not exist
+app.use("*", async (c, next) => {
+  const token = c.env.ADMIN_TOKEN;
+  if (!token) {
+    return c.notFound();
+  }
+  const provided = c.req.header("Authorization")?.replace(/^Bearer\s+/i, "") ?? "";
+  if (!constantTimeEqual(provided, token)) {
+    return c.json({ error: "Unauthorized" }, 401);
+  }
+  await next();
+});
+
+app.onError((error, c) => {
+  if (error instanceof PolarNoDataError) {
+    return c.json({ error: "No webhook exists for this client" }, 404);
+  }
+  if (error instanceof PolarApiError) {
+    // Polar rejected our request (4xx) or failed itself (5xx, network)
+    const status = error.status !== null && error.status < 500 ? 400 : 502;
+    return c.json({ error: error.message, hint: error.hint }, status);
+  }
+  return c.json({ error: error instanceof Error ? error.message : String(error) }, 500);
+});
+
+// GET /admin/webhook - Current subscription
+app.get("/webhook", async (c) => {
+  const webhook = await webhookClient(c.env).get();
+  return c.json(publicInfo(webhook, (await webhookSecrets(c.env)).length > 0));
+});
+
+// POST /admin/webhook - Create the subscription (defaults: this Worker's /webhook, every handled event)
+app.post("/webhook", async (c) => {
+  const settings = await readSettings(c);
+  const url = settings.url ?? `${new URL(c.req.url).origin}/webhook`;
+  const webhook = await webhookClient(c.env).create(url, settings.events ?? WEBHOOK_EVENT_TYPES);
+  if (webhook.signature_secret_key) {
+    await storeWebhookSecret(c.env, webhook.signature_secret_key);
+  }
+  return c.json(publicInfo(webhook, true), 201);
+});
+
+// PATCH /admin/webhook - Change url and/or events
+app.patch("/webhook", async (c) => {
+  const client = webhookClient(c.env);
+  const { id } = await client.get();
+  const webhook = await client.update(id, await readSettings(c));
+  return c.json(publicInfo(webhook, (await webhookSecrets(c.env)).length > 0));
+});
+
+// DELETE /admin/webhook - Remove the subscription and its stored secrets
+app.delete("/webhook", async (c) => {
+  const client = webhookClient(c.env);
+  const { id } = await client.get();
+  await client.delete(id);
+  await Promise.all([c.env.OAUTH_KV.delete(WEBHOOK_SECRET_KEY), c.env.OAUTH_KV.delete(PREVIOUS_WEBHOOK_SECRET_KEY)]);
+  return c.body(null, 204);
+});
+
+app.post("/webhook/activate", async (c) => {
+  await webhookClient(c.env).activate();
+  return c.json({ active: true });
+});
+
+app.post("/webhook/deactivate", async (c) => {
+  await webhookClient(c.env).deactivate();
+  return c.json({ active: false });
+});
+
+// POST /admin/webhook/rotate - Recreate the subscription to get a new signature secret
+app.post("/webhook/rotate", async (c) => {
+  const webhook = await rotateWebhook(webhookClient(c.env));
+  if (webhook.signature_secret_key) {
+    await storeWebhookSecret(c.env, webhook.signature_secret_key);
+  }
+  return c.json(publicInfo(webhook, true));
+});
+
+export const AdminHandler = app;
@@ -0,0 +1,127 @@
+import { Hono } from "hono";
+import type { Context } from "hono";
+import type { Env } from "../types.js";
+import { clockCheck, overallStatus, rateLimitCheck } from "../diagnostics.js";
+import type { DiagnosticCheck, DiagnosticsReport } from "../diagnostics.js";
+import { POLAR_API_BASE } from "../polar-api.js";
+import { quotaLimits } from "../quota.js";
+import { accessLinkObservation, lastAccessLinkObservation } from "../rate-limit.js";
+import type { AccessLinkObservation } from "../rate-limit.js";
+import { constantTimeEqual } from "../webhooks.js";
+
+/** Secrets without which users cannot connect */
+const REQUIRED_SECRETS = ["POLAR_CLIENT_ID", "POLAR_CLIENT_SECRET", "TOKEN_ENCRYPTION_KEY"] as const;
+
+/** Secrets that only enable optional features */
+const OPTIONAL_SECRETS = ["COOKIE_SIGNING_KEY", "POLAR_WEBHOOK_SECRET", "ADMIN_TOKEN"] as const;
+
+const ACCESSLINK_TIMEOUT_MS = 5_000;
+
+/** How long an isolate reuses its AccessLink probe, so /health hits do not each reach Polar */
+const ACCESSLINK_PROBE_TTL_MS = 60_000;
+
+type AccessLinkProbe = { check: DiagnosticCheck; observation?: AccessLinkObservation };
+
+let lastProbe: { at: number; result: Promise<AccessLinkProbe> } | null = null;
+
+const app = new Hono<{ Bindings: Env }>();
+
+/**
+ * Which secrets are set (never their values) and whether the quota vars parse
+ */
+function configCheck(env: Env): DiagnosticCheck {
+  const missing = REQUIRED_SECRETS.filter((name) => !env[name]);
+  const unset = OPTIONAL_SECRETS.filter((name) => !env[name]);
+  try {
+    quotaLimits(env);
+  } catch (error) {
+    return { name: "Configuration", status: "error", detail: error instanceof Error ? error.message : String(error) };
+  }
+  if (missing.length > 0) {
+    return { name: "Configuration", status: "error", detail: `Missing secrets: ${missing.join(", ")}` };
+  }
+  return {
+    name: "Configuration",
+    status: "ok",
+    detail: `Required secrets set${unset.length > 0 ? `; optional features off without ${unset.join(", ")}` : ""}`,
+  };
+}
+
+async function kvCheck(env: Env): Promise<DiagnosticCheck> {
+  try {
+    await env.OAUTH_KV.get("health:check");
+    return { name: "OAuth KV", status: "ok", detail: "Readable" };
+  } catch (error) {
+    return { name: "OAuth KV", status: "error", detail: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * An unauthenticated request: a 401 still shows AccessLink is up, and its
+ * Date header feeds the clock check. Its headers are not recorded as the
+ * last observation, which describes the users' requests.
+ */
+async function probeAccessLink(): Promise<AccessLinkProbe> {
+  const started = Date.now();
+  try {
+    const response = await fetch(`${POLAR_API_BASE}/users/me`, {
+      headers: { Accept: "application/json" },
+      signal: AbortSignal.timeout(ACCESSLINK_TIMEOUT_MS),
+    });
+    await response.body?.cancel();
+    const observation = accessLinkObservation(response.headers);
+    const elapsed = Date.now() - started;
+    const check: DiagnosticCheck =
+      response.status >= 500
+        ? { name: "AccessLink", status: "error", detail: `Answered ${response.status} after ${elapsed} ms` }
+        : { name: "AccessLink", status: "ok", detail: `Reachable, answered in ${elapsed} ms` };
+    return { check, observation };
+  } catch (error) {
+    return {
+      check: {
+        name: "AccessLink",
+        status: "error",
+        detail: `Unreachable: ${error instanceof Error ? error.message : String(error)}`,
+      },
+    };
+  }
+}
+
+/**
+ * The probe of the last minute, or a new one. Concurrent hits share the
+ * request in flight.
+ */
+function accessLinkCheck(): Promise<AccessLinkProbe> {
+  const now = Date.now();
+  if (!lastProbe || now - lastProbe.at > ACCESSLINK_PROBE_TTL_MS) {
+    lastProbe = { at: now, result: probeAccessLink() };
+  }
+  return lastProbe.result;
+}
+
+/** Whether the request carries `Authorization: Bearer <ADMIN_TOKEN>` */
+function isAdmin(c: Context<{ Bindings: Env }>): boolean {
+  const token = c.env.ADMIN_TOKEN;
+  const provided = c.req.header("Authorization")?.replace(/^Bearer\s+/i, "") ?? "";
+  return !!token && constantTimeEqual(provided, token);
+}
+
+// GET /health - Worker configuration, storage, AccessLink reachability, rate-limit headroom and clock.
+// Anyone gets the overall status; the checks, which name missing secrets, only with ADMIN_TOKEN.
+app.get("/", async (c) => {
+  const accessLink = await accessLinkCheck();
+  const checks = [
+    configCheck(c.env),
+    await kvCheck(c.env),
+    accessLink.check,
+    // Headroom as last reported for a user request; the probe carries no rate-limit headers
+    rateLimitCheck(lastAccessLinkObservation()),
+    clockCheck(accessLink.observation ?? lastAccessLinkObservation()),
+  ];
+  const report: DiagnosticsReport = { status: overallStatus(checks), checkedAt: new Date().toISOString(), checks };
+  c.header("Cache-Control", "no-store");
+  const body = isAdmin(c) ? report : { status: report.status, checkedAt: report.checkedAt };
+  return c.json(body, report.status === "error" ? 503 : 200);
+});
+
+export const HealthHandler = app;
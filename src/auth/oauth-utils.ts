@@ -1,12 +1,70 @@
+import type { Context } from "hono";
+import { deleteCookie, getCookie, getSignedCookie, setCookie, setSignedCookie } from "hono/cookie";
+import { z } from "zod";
 import type { Env } from "../types.js";
-import { POLAR_AUTH_URL } from "../polar-api.js";
+import { DATA_CATEGORIES, DATA_CATEGORY_LABELS } from "../consent.js";
+import type { DataCategory } from "../consent.js";
+import { createOAuthState, escapeHtml, polarAuthorizeUrl } from "../oauth.js";
+import type { OAuthClientCredentials } from "../oauth.js";
+import { constantTimeEqual } from "../webhooks.js";
 
-const COOKIE_NAME = "mcp-polar-approved";
+/**
+ * HMAC-signed (COOKIE_SIGNING_KEY) JSON map of the MCP clients this browser
+ * approved. An approval skips the dialog and goes straight to Polar.
+ */
+const APPROVAL_COOKIE = "mcp-polar-approvals";
+const APPROVAL_TTL_SECONDS = 30 * 24 * 60 * 60;
+/** Keeps the cookie well under the 4 KB browsers store */
+const MAX_APPROVALS = 10;
+
+const ClientApprovalsSchema = z.record(
+  z.string(),
+  z.object({
+    /** Unix seconds */
+    expires: z.number(),
+    /** What the user granted, so a remembered approval cannot widen access */
+    categories: z.array(z.enum(DATA_CATEGORIES)),
+  })
+);
+
+/**
+ * The Polar `state` of the flow this browser started. /callback only
+ * continues when it matches, so an authorize URL someone else started cannot
+ * connect a victim's Polar account to their client, sign a victim in or
+ * delete their data.
+ */
+const STATE_COOKIE = "polar-oauth-state";
+const STATE_TTL_SECONDS = 600;
+
+/**
+ * Double-submit token for the approval form. SameSite=Strict, so another
+ * site cannot post an approval (and have it remembered) for a client it
+ * started the authorization of.
+ */
+const APPROVAL_FORM_COOKIE = "polar-authorize-confirm";
+
+/** Client ID → approval */
+export type ClientApprovals = z.infer<typeof ClientApprovalsSchema>;
 
 export function renderApprovalDialog(
+  c: Context<{ Bindings: Env }>,
   oauthReqInfo: { clientId: string; redirectUri: string },
-  stateKey: string
+  stateKey: string,
+  error?: string
 ): Response {
+  const token = crypto.randomUUID();
+  setCookie(c, APPROVAL_FORM_COOKIE, token, {
+    httpOnly: true,
+    secure: true,
+    sameSite: "Strict",
+    path: "/authorize",
+    maxAge: STATE_TTL_SECONDS,
+  });
+
+  const categories = DATA_CATEGORIES.map(
+    (category) => `<label><input type="checkbox" name="category" value="${category}" checked /> ${escapeHtml(DATA_CATEGORY_LABELS[category])}</label>`
+  ).join("\n        ");
+
   const html = `<!DOCTYPE html>
 <html>
 <head>
@@ -23,7 +81,12 @@ export function renderApprovalDialog(
     .info dd { margin: 0 0 8px 0; color: #666; }
     .btn { display: inline-block; background: #d93636; color: white; padding: 12px 24px; border: none; border-radius: 8px; font-weight: 600; font-size: 16px; cursor: pointer; transition: background 0.2s; }
     .btn:hover { background: #b82e2e; }
+    .btn-secondary { background: #eee; color: #333; margin-left: 8px; }
+    .btn-secondary:hover { background: #ddd; }
     .actions { margin-top: 24px; }
+    fieldset { border: 1px solid #eee; border-radius: 8px; padding: 12px 16px; }
+    fieldset label { display: block; margin: 4px 0; color: #333; }
+    .error { color: #d93636; font-weight: 600; }
   </style>
 </head>
 <body>
@@ -38,84 +101,158 @@ export function renderApprovalDialog(
       <dd>${escapeHtml(oauthReqInfo.redirectUri)}</dd>
     </dl>
 
-    <p>This will allow the application to read your Polar fitness data including exercises, sleep, heart rate, and recovery metrics.</p>
+    <p>Choose which of your Polar data the application may read:</p>
+    ${error ? `<p class="error">${escapeHtml(error)}</p>` : ""}
 
     <form method="POST" action="/authorize">
       <input type="hidden" name="state_key" value="${escapeHtml(stateKey)}" />
+      <input type="hidden" name="confirm_token" value="${escapeHtml(token)}" />
+      <fieldset>
+        ${categories}
+      </fieldset>
       <div class="actions">
         <button type="submit" name="action" value="approve" class="btn">Authorize with Polar</button>
+        <button type="submit" name="action" value="deny" class="btn btn-secondary">Deny</button>
       </div>
     </form>
   </div>
 </body>
 </html>`;
 
-  return new Response(html, {
-    headers: { "Content-Type": "text/html" },
-  });
+  return c.html(html);
 }
 
-export function getUpstreamAuthorizeUrl(env: Env, callbackUrl: string, state: string): string {
-  const url = new URL(POLAR_AUTH_URL);
-  url.searchParams.set("response_type", "code");
-  url.searchParams.set("client_id", env.POLAR_CLIENT_ID);
-  url.searchParams.set("redirect_uri", callbackUrl);
-  url.searchParams.set("state", state);
-  return url.toString();
+/**
+ * Whether the approval form was posted from the dialog this browser was shown
+ */
+export function approvalFormValid(c: Context<{ Bindings: Env }>, form: FormData): boolean {
+  const token = form.get("confirm_token");
+  const expected = getCookie(c, APPROVAL_FORM_COOKIE);
+  return typeof token === "string" && !!expected && constantTimeEqual(token, expected);
 }
 
-export async function fetchPolarToken(
-  code: string,
-  redirectUri: string,
-  env: Env
-): Promise<{ access_token: string; x_user_id: number }> {
-  const credentials = btoa(`${env.POLAR_CLIENT_ID}:${env.POLAR_CLIENT_SECRET}`);
-
-  const response = await fetch("https://polarremote.com/v2/oauth2/token", {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/x-www-form-urlencoded",
-      Authorization: `Basic ${credentials}`,
-      Accept: "application/json",
-    },
-    body: new URLSearchParams({
-      grant_type: "authorization_code",
-      code,
-      redirect_uri: redirectUri,
-    }).toString(),
+/**
+ * What /callback should do once Polar redirects back: finish an MCP client's
+ * authorization (the AuthRequest stored under `stateKey`), or run an account
+ * action that needed the user to prove they own the Polar account
+ */
+export type CallbackState =
+  | { stateKey: string; categories: DataCategory[] }
+  | { action: "delete-account" }
+  | { action: "account-login"; returnTo: string };
+
+/**
+ * Store the callback state under a fresh Polar `state`, bind that state to
+ * this browser and redirect to Polar
+ */
+export async function redirectToPolar(c: Context<{ Bindings: Env }>, callbackState: CallbackState) {
+  const url = new URL(c.req.url);
+
+  const state = createOAuthState();
+  await c.env.OAUTH_KV.put(`state:${state}`, JSON.stringify(callbackState), { expirationTtl: STATE_TTL_SECONDS });
+  // Lax, since Polar's redirect back to /callback is a cross-site navigation
+  setCookie(c, STATE_COOKIE, state, {
+    httpOnly: true,
+    secure: true,
+    sameSite: "Lax",
+    path: "/callback",
+    maxAge: STATE_TTL_SECONDS,
   });
 
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`Polar token exchange failed (${response.status}): ${errorText}`);
+  const callbackUrl = `${url.origin}/callback`;
+  const upstreamUrl = polarAuthorizeUrl(c.env.POLAR_CLIENT_ID, callbackUrl, state);
+  return c.redirect(upstreamUrl);
+}
+
+/**
+ * Whether this browser started the flow Polar returned with, clearing the cookie
+ */
+export function stateStartedHere(c: Context<{ Bindings: Env }>, state: string): boolean {
+  const expected = getCookie(c, STATE_COOKIE);
+  deleteCookie(c, STATE_COOKIE, { path: "/callback", secure: true });
+  return !!expected && constantTimeEqual(state, expected);
+}
+
+/**
+ * Where to send the user after they deny a client: its redirect URI with
+ * the OAuth `access_denied` error and the client's own `state`
+ */
+export function accessDeniedRedirect(authRequest: { redirectUri: string; state?: string }): string {
+  const url = new URL(authRequest.redirectUri);
+  url.searchParams.set("error", "access_denied");
+  url.searchParams.set("error_description", "The user denied access to their Polar data");
+  if (authRequest.state) {
+    url.searchParams.set("state", authRequest.state);
   }
+  return url.toString();
+}
 
-  return response.json() as Promise<{ access_token: string; x_user_id: number }>;
+export function polarClientCredentials(env: Env): OAuthClientCredentials {
+  return { clientId: env.POLAR_CLIENT_ID, clientSecret: env.POLAR_CLIENT_SECRET };
 }
 
-export function clientIdAlreadyApproved(request: Request, clientId: string): boolean {
-  const cookie = request.headers.get("Cookie") || "";
-  return cookie.includes(`${COOKIE_NAME}=${clientId}`);
+/**
+ * Unexpired approvals from the cookie. Without COOKIE_SIGNING_KEY, or with
+ * a missing or forged cookie, there are none and every client sees the dialog.
+ */
+export async function readApprovals(c: Context<{ Bindings: Env }>): Promise<ClientApprovals> {
+  if (!c.env.COOKIE_SIGNING_KEY) return {};
+  const value = await getSignedCookie(c, c.env.COOKIE_SIGNING_KEY, APPROVAL_COOKIE);
+  if (!value) return {};
+
+  let parsed;
+  try {
+    parsed = ClientApprovalsSchema.safeParse(JSON.parse(value));
+  } catch {
+    return {};
+  }
+  if (!parsed.success) return {};
+
+  const now = Date.now() / 1000;
+  return Object.fromEntries(Object.entries(parsed.data).filter(([, approval]) => approval.expires > now));
 }
 
-export function setApprovalCookie(response: Response, clientId: string): Response {
-  const headers = new Headers(response.headers);
-  headers.append(
-    "Set-Cookie",
-    `${COOKIE_NAME}=${clientId}; HttpOnly; Secure; SameSite=Lax; Max-Age=31536000; Path=/`
-  );
-  return new Response(response.body, {
-    status: response.status,
-    statusText: response.statusText,
-    headers,
+/**
+ * Replace the cookie with these approvals, keeping the most recent ones
+ */
+export async function writeApprovals(c: Context<{ Bindings: Env }>, approvals: ClientApprovals): Promise<void> {
+  if (!c.env.COOKIE_SIGNING_KEY) return;
+  const entries = Object.entries(approvals)
+    .sort(([, a], [, b]) => b.expires - a.expires)
+    .slice(0, MAX_APPROVALS);
+  if (entries.length === 0) {
+    deleteCookie(c, APPROVAL_COOKIE, { path: "/", secure: true });
+    return;
+  }
+
+  await setSignedCookie(c, APPROVAL_COOKIE, JSON.stringify(Object.fromEntries(entries)), c.env.COOKIE_SIGNING_KEY, {
+    httpOnly: true,
+    secure: true,
+    sameSite: "Lax",
+    path: "/",
+    maxAge: Math.ceil(entries[0][1].expires - Date.now() / 1000),
   });
 }
 
-function escapeHtml(str: string): string {
-  return str
-    .replace(/&/g, "&amp;")
-    .replace(/</g, "&lt;")
-    .replace(/>/g, "&gt;")
-    .replace(/"/g, "&quot;")
-    .replace(/'/g, "&#039;");
+/**
+ * The categories this browser approved for the client, or undefined when it
+ * has to see the dialog
+ */
+export async function approvedCategories(
+  c: Context<{ Bindings: Env }>,
+  clientId: string
+): Promise<DataCategory[] | undefined> {
+  const approvals = await readApprovals(c);
+  return Object.hasOwn(approvals, clientId) ? approvals[clientId].categories : undefined;
 }
+
+export async function rememberApproval(
+  c: Context<{ Bindings: Env }>,
+  clientId: string,
+  categories: DataCategory[]
+): Promise<void> {
+  const approvals = await readApprovals(c);
+  approvals[clientId] = { expires: Math.floor(Date.now() / 1000) + APPROVAL_TTL_SECONDS, categories };
+  await writeApprovals(c, approvals);
+}
+
@@ -1,13 +1,26 @@
 import { Hono } from "hono";
 import type { Env } from "../types.js";
+import { isDataCategory } from "../consent.js";
+import { exchangeCodeForToken } from "../oauth.js";
 import { registerPolarUser } from "../polar-api.js";
+import { sealToken } from "../token-encryption.js";
+import { WebhookEventSchema } from "../polar-models.js";
+import { userData } from "../user-data.js";
+import { WEBHOOK_SIGNATURE_HEADER, verifyWebhookSignature } from "../webhooks.js";
 import {
   renderApprovalDialog,
-  getUpstreamAuthorizeUrl,
-  fetchPolarToken,
-  clientIdAlreadyApproved,
-  setApprovalCookie,
+  approvalFormValid,
+  redirectToPolar,
+  polarClientCredentials,
+  accessDeniedRedirect,
+  approvedCategories,
+  rememberApproval,
+  stateStartedHere,
 } from "./oauth-utils.js";
+import type { CallbackState } from "./oauth-utils.js";
+import { AccountHandler, completeAccountLogin, confirmAccountDeletion } from "./account-handler.js";
+import { AdminHandler, webhookSecrets } from "./admin-handler.js";
+import { HealthHandler } from "./health-handler.js";
 
 const app = new Hono<{ Bindings: Env }>();
 
@@ -35,18 +48,21 @@ app.get("/authorize", async (c) => {
     redirectUri: authRequest.redirectUri,
   };
 
-  const alreadyApproved = clientIdAlreadyApproved(c.req.raw, authRequest.clientId);
+  const approved = await approvedCategories(c, authRequest.clientId);
 
-  if (alreadyApproved) {
-    return redirectToPolar(c, stateKey);
+  if (approved) {
+    return redirectToPolar(c, { stateKey, categories: approved });
   }
 
-  return renderApprovalDialog(oauthReqInfo, stateKey);
+  return renderApprovalDialog(c, oauthReqInfo, stateKey);
 });
 
 // POST /authorize - Process approval form, redirect to Polar
 app.post("/authorize", async (c) => {
   const formData = await c.req.formData();
+  if (!approvalFormValid(c, formData)) {
+    return c.text("This approval was not sent from the authorization page. Start the connection again from your app.", 400);
+  }
   const stateKey = formData.get("state_key") as string;
 
   // Retrieve auth request to get client_id for the cookie
@@ -56,8 +72,23 @@ app.post("/authorize", async (c) => {
   }
   const authRequest = JSON.parse(authRequestStr);
 
-  const response = await redirectToPolar(c, stateKey);
-  return setApprovalCookie(response, authRequest.clientId);
+  if (formData.get("action") === "deny") {
+    await c.env.OAUTH_KV.delete(`auth_request:${stateKey}`);
+    return c.redirect(accessDeniedRedirect(authRequest));
+  }
+
+  const categories = [...new Set(formData.getAll("category").filter(isDataCategory))];
+  if (categories.length === 0) {
+    return renderApprovalDialog(
+      c,
+      { clientId: authRequest.clientId, redirectUri: authRequest.redirectUri },
+      stateKey,
+      "Choose at least one kind of data, or deny access."
+    );
+  }
+
+  await rememberApproval(c, authRequest.clientId, categories);
+  return redirectToPolar(c, { stateKey, categories });
 });
 
 // GET /callback - Exchange Polar code for token, complete OAuth authorization
@@ -81,7 +112,17 @@ app.get("/callback", async (c) => {
   }
   await c.env.OAUTH_KV.delete(`state:${polarState}`);
 
-  const stateData = JSON.parse(stateDataStr) as { stateKey: string };
+  // Every flow acts on whoever completes the Polar sign-in, so only for the browser that started it
+  if (!stateStartedHere(c, polarState)) {
+    return c.text("This sign-in was not started in this browser. Start it again from your app or /account.", 400);
+  }
+
+  const stateData = JSON.parse(stateDataStr) as CallbackState;
+  if ("action" in stateData) {
+    return stateData.action === "delete-account"
+      ? confirmAccountDeletion(c, code)
+      : completeAccountLogin(c, code, stateData.returnTo);
+  }
 
   // Retrieve the original AuthRequest
   const authRequestStr = await c.env.OAUTH_KV.get(`auth_request:${stateData.stateKey}`);
@@ -94,43 +135,88 @@ app.get("/callback", async (c) => {
 
   // Exchange code for Polar access token
   const callbackUrl = `${new URL(c.req.url).origin}/callback`;
-  const tokenData = await fetchPolarToken(code, callbackUrl, c.env);
+  const tokenData = await exchangeCodeForToken(code, polarClientCredentials(c.env), callbackUrl);
 
   // Register user with Polar AccessLink (ignore if already registered)
   await registerPolarUser(tokenData.access_token, tokenData.x_user_id);
 
+  // The token is stored only sealed; MyMCP opens it when a session starts
+  const sealedToken = await sealToken(c.env, tokenData.access_token, tokenData.x_user_id);
+
   // Complete the OAuth authorization directly — no redirect workaround needed
   const { redirectTo } = await c.env.OAUTH_PROVIDER.completeAuthorization({
     request: authRequest,
     userId: String(tokenData.x_user_id),
     metadata: {
       label: `Polar User ${tokenData.x_user_id}`,
+      // Shown on /account; the props holding them are encrypted
+      categories: stateData.categories,
     },
     scope: authRequest.scope || [],
     props: {
-      accessToken: tokenData.access_token,
+      sealedToken,
       userId: tokenData.x_user_id,
+      clientId: authRequest.clientId,
+      categories: stateData.categories,
     },
   });
 
+  // Let the per-user instance fetch webhook resources before the first MCP session
+  await userData(c.env, tokenData.x_user_id).saveCredentials({
+    sealedToken,
+    userId: tokenData.x_user_id,
+  });
+
   return Response.redirect(redirectTo, 302);
 });
 
-// Helper: Store stateKey and redirect to Polar OAuth
-async function redirectToPolar(c: any, stateKey: string) {
-  const url = new URL(c.req.url);
+// POST /webhook - AccessLink webhook events, verified and handed to the user's instance
+app.post("/webhook", async (c) => {
+  const secrets = await webhookSecrets(c.env);
+  if (secrets.length === 0) {
+    return c.text("Webhook secret not configured", 503);
+  }
 
-  const callbackState = crypto.randomUUID();
-  await c.env.OAUTH_KV.put(
-    `state:${callbackState}`,
-    JSON.stringify({ stateKey }),
-    { expirationTtl: 600 }
+  const body = await c.req.text();
+  const signature = c.req.header(WEBHOOK_SIGNATURE_HEADER);
+  if (!(await verifyWebhookSignature(secrets, body, signature))) {
+    return c.text("Invalid signature", 401);
+  }
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(body);
+  } catch {
+    return c.text("Invalid JSON", 400);
+  }
+  const parsed = WebhookEventSchema.safeParse(payload);
+  if (!parsed.success) {
+    return c.text("Invalid webhook event", 400);
+  }
+
+  // PING is sent when the webhook is created; other events without a user have nothing to fetch
+  const event = parsed.data;
+  if (event.event === "PING" || event.user_id == null) {
+    return c.text("OK");
+  }
+
+  // Acknowledge right away; Polar only needs a 200, the fetch can finish in the background
+  c.executionCtx.waitUntil(
+    userData(c.env, event.user_id)
+      .handleWebhookEvent(event)
+      .catch((error) => console.error(`Webhook ${event.event} for user ${event.user_id} failed:`, error))
   );
+  return c.text("OK");
+});
 
-  const callbackUrl = `${url.origin}/callback`;
-  const upstreamUrl = getUpstreamAuthorizeUrl(c.env, callbackUrl, callbackState);
-  return c.redirect(upstreamUrl);
-}
+// /health - Deployment checks for uptime monitors, see health-handler.ts
+app.route("/health", HealthHandler);
+
+// /account/* - Signed-in account area and account deletion, see account-handler.ts
+app.route("/account", AccountHandler);
+
+// /admin/* - Webhook subscription management, see admin-handler.ts
+app.route("/admin", AdminHandler);
 
 function landingPageHtml(origin: string): string {
   return `<!DOCTYPE html>
@@ -189,6 +275,7 @@ function landingPageHtml(origin: string): string {
   </div>
 
   <p class="devices"><strong>Supported devices:</strong> Polar Pacer Pro, Vantage V2/V3, Grit X Pro, Ignite 3, and more.</p>
+  <p class="devices">Already connected? <a href="/account">Manage your account</a>: see and disconnect MCP clients, review their activity or delete your data.</p>
 </body>
 </html>`;
 }
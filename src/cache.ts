@@ -0,0 +1,62 @@
+/**
+ * Tool Response Cache
+ * How long each tool's result may be reused, and the store interface the
+ * remote server implements over Durable Object SQLite (see user-data.ts).
+ */
+
+export interface ResponseCache {
+  /** Cached value for the key, or undefined when missing or expired */
+  get(key: string): Promise<unknown>;
+  set(key: string, value: unknown, ttlSeconds: number): Promise<void>;
+}
+
+/** Seconds a tool result may be served from the cache */
+export type CachePolicy = (args: Record<string, unknown>) => number;
+
+const MINUTE = 60;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+export const CACHE_TTL = {
+  /** "Latest records" lists, which grow whenever the device syncs */
+  latest: 5 * MINUTE,
+  /** Today and yesterday, still filled in by syncs (and time zones) */
+  recent: 5 * MINUTE,
+  /** Earlier days, which no longer change */
+  settled: 7 * DAY,
+  /** Profile and physical information */
+  profile: HOUR,
+  /** A recorded exercise and anything derived from its files */
+  exercise: 7 * DAY,
+};
+
+/**
+ * TTL for data of one calendar day (YYYY-MM-DD). Without a date the tool
+ * lists the latest records.
+ */
+export function dateTtl(date: string | undefined, now = new Date()): number {
+  if (!date) return CACHE_TTL.latest;
+  // Two days back so "yesterday" in any time zone still counts as recent
+  const settledBefore = new Date(now.getTime() - 2 * DAY * 1000).toISOString().slice(0, 10);
+  return date < settledBefore ? CACHE_TTL.settled : CACHE_TTL.recent;
+}
+
+/** A range is as stable as its last day */
+export const rangeCache: CachePolicy = (args) => dateTtl(args.to as string | undefined);
+
+export const dateCache: CachePolicy = (args) => dateTtl(args.date as string | undefined);
+
+export function fixedCache(ttlSeconds: number): CachePolicy {
+  return () => ttlSeconds;
+}
+
+/**
+ * Cache key for a tool call. `refresh` only controls the cache, so it is
+ * not part of the key.
+ */
+export function cacheKey(tool: string, args: Record<string, unknown>): string {
+  const entries = Object.entries(args)
+    .filter(([name, value]) => name !== "refresh" && value !== undefined)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  return `${tool}:${JSON.stringify(Object.fromEntries(entries))}`;
+}
@@ -0,0 +1,31 @@
+/**
+ * Data Categories
+ * What a user can let an MCP client read on the Worker's approval dialog.
+ * Each tool in the registry names the categories it reads.
+ */
+
+export const DATA_CATEGORIES = [
+  "exercises",
+  "sleep",
+  "recovery",
+  "activity",
+  "heart_rate",
+  "biosensing",
+  "profile",
+] as const;
+
+export type DataCategory = (typeof DATA_CATEGORIES)[number];
+
+export const DATA_CATEGORY_LABELS: Record<DataCategory, string> = {
+  exercises: "Exercises, including GPS routes and FIT/TCX/GPX files",
+  sleep: "Sleep and SleepWise",
+  recovery: "Recovery: Nightly Recharge, HRV and cardio load",
+  activity: "Daily activity and steps",
+  heart_rate: "Continuous heart rate",
+  biosensing: "Biosensing: body and skin temperature, SpO2",
+  profile: "Profile and physical information (weight, VO2max, thresholds)",
+};
+
+export function isDataCategory(value: unknown): value is DataCategory {
+  return typeof value === "string" && (DATA_CATEGORIES as readonly string[]).includes(value);
+}
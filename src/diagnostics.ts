@@ -0,0 +1,236 @@
+/**
+ * Diagnostics
+ * Answers "why is get_spo2 empty?" in one call: is the token valid, is the
+ * user registered with this AccessLink client, which data their device and
+ * consents actually produce, how much of the rate limit is left and whether
+ * the local clock agrees with AccessLink's. Used by the diagnose tool; the
+ * Worker's /health route reuses the rate-limit and clock checks.
+ */
+
+import type { PolarClient } from "./polar-client.js";
+import type { DataCategory } from "./consent.js";
+import {
+  PolarApiError,
+  PolarConsentMissingError,
+  PolarNoDataError,
+  PolarUnauthorizedError,
+  PolarUserNotRegisteredError,
+  noDataHint,
+} from "./errors.js";
+import { lastAccessLinkObservation, polarRateLimiter } from "./rate-limit.js";
+import type { AccessLinkObservation } from "./rate-limit.js";
+
+export type CheckStatus = "ok" | "warning" | "error" | "skipped";
+
+export interface DiagnosticCheck {
+  name: string;
+  status: CheckStatus;
+  detail: string;
+}
+
+export interface DiagnosticsReport {
+  /** Worst status among the checks */
+  status: Exclude<CheckStatus, "skipped">;
+  checkedAt: string;
+  checks: DiagnosticCheck[];
+}
+
+/** Clocks further apart than this get "today" wrong around midnight */
+const MAX_CLOCK_SKEW_MS = 60_000;
+
+/** Share of a rate-limit window after which headroom is reported as low */
+const RATE_LIMIT_WARNING = 0.8;
+
+interface DataProbe {
+  name: string;
+  category: DataCategory;
+  /** Endpoint prefix, for the no-data hint */
+  endpoint: string;
+  /** Records the user's recent data holds */
+  count: (client: PolarClient) => Promise<number>;
+}
+
+function daysAgo(days: number): string {
+  return new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+}
+
+const DATA_PROBES: DataProbe[] = [
+  {
+    name: "Exercises",
+    category: "exercises",
+    endpoint: "/exercises",
+    count: async (client) => (await client.listExercises()).length,
+  },
+  {
+    name: "Sleep",
+    category: "sleep",
+    endpoint: "/users/sleep",
+    count: async (client) => (await client.listSleep()).length,
+  },
+  {
+    name: "Nightly Recharge",
+    category: "recovery",
+    endpoint: "/users/nightly-recharge",
+    count: async (client) => (await client.listNightlyRecharge()).length,
+  },
+  {
+    name: "Daily activity",
+    category: "activity",
+    endpoint: "/users/activities",
+    count: async (client) => (await client.listDailyActivity()).length,
+  },
+  {
+    name: "Continuous heart rate (last 7 days)",
+    category: "heart_rate",
+    endpoint: "/users/continuous-heart-rate",
+    count: async (client) => (await client.listContinuousHeartRate({ from: daysAgo(6), to: daysAgo(0) })).length,
+  },
+  {
+    name: "SleepWise alertness",
+    category: "sleep",
+    endpoint: "/users/sleepwise",
+    count: async (client) => (await client.getSleepWiseAlertness()).length,
+  },
+  {
+    name: "Body temperature (Elixir)",
+    category: "biosensing",
+    endpoint: "/users/biosensing",
+    count: async (client) => (await client.getBodyTemperature()).length,
+  },
+  {
+    name: "Skin temperature (Elixir)",
+    category: "biosensing",
+    endpoint: "/users/biosensing",
+    count: async (client) => (await client.getSkinTemperature()).length,
+  },
+  {
+    name: "SpO2 (Elixir)",
+    category: "biosensing",
+    endpoint: "/users/biosensing",
+    count: async (client) => (await client.getSpo2()).length,
+  },
+];
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Token validity and AccessLink registration, both from /users/me
+ */
+async function accountChecks(client: PolarClient): Promise<DiagnosticCheck[]> {
+  try {
+    const user = await client.getUserInfo();
+    return [
+      { name: "Access token", status: "ok", detail: `Valid for Polar user ${user["polar-user-id"]}` },
+      {
+        name: "AccessLink registration",
+        status: "ok",
+        detail: `Registered with this AccessLink client${user["registration-date"] ? ` since ${user["registration-date"].slice(0, 10)}` : ""}`,
+      },
+    ];
+  } catch (error) {
+    if (error instanceof PolarUserNotRegisteredError) {
+      return [
+        { name: "Access token", status: "ok", detail: "Accepted by Polar" },
+        { name: "AccessLink registration", status: "error", detail: `${error.message}. ${error.hint}` },
+      ];
+    }
+    const hint = error instanceof PolarUnauthorizedError ? ` ${error.hint}` : "";
+    return [
+      { name: "Access token", status: "error", detail: `${errorMessage(error)}.${hint}` },
+      { name: "AccessLink registration", status: "skipped", detail: "Needs a working access token" },
+    ];
+  }
+}
+
+async function dataCheck(client: PolarClient, probe: DataProbe, categories?: DataCategory[]): Promise<DiagnosticCheck> {
+  if (categories && !categories.includes(probe.category)) {
+    return { name: probe.name, status: "skipped", detail: "Not granted to this MCP client on the approval dialog" };
+  }
+  try {
+    const count = await probe.count(client);
+    return count > 0
+      ? { name: probe.name, status: "ok", detail: `${count} recent record${count === 1 ? "" : "s"}` }
+      : { name: probe.name, status: "warning", detail: `No recent data. ${noDataHint(probe.endpoint)}` };
+  } catch (error) {
+    if (error instanceof PolarNoDataError) {
+      return { name: probe.name, status: "warning", detail: `No recent data. ${error.hint}` };
+    }
+    if (error instanceof PolarConsentMissingError) {
+      return { name: probe.name, status: "error", detail: `Not shared by the user. ${error.hint}` };
+    }
+    const hint = error instanceof PolarApiError ? ` ${error.hint}` : "";
+    return { name: probe.name, status: "error", detail: `${errorMessage(error)}.${hint}` };
+  }
+}
+
+/**
+ * How much of AccessLink's short- and long-term limit is used, as last reported
+ */
+export function rateLimitCheck(observation: AccessLinkObservation | null = lastAccessLinkObservation()): DiagnosticCheck {
+  const name = "AccessLink rate limit";
+  if (!observation?.rateLimit) {
+    return { name, status: "skipped", detail: "AccessLink has not reported its rate limit to this server instance yet" };
+  }
+
+  const { usage, limit, reset } = observation.rateLimit;
+  const secondsSince = Math.round((Date.now() - observation.receivedAt) / 1000);
+  const windows = (["15-minute", "24-hour"] as const).map(
+    (label, i) => `${label} window: ${usage[i]} of ${limit[i]} requests used, resets in ${Math.max(0, reset[i] - secondsSince)} s`
+  );
+  const used = Math.max(usage[0] / limit[0], usage[1] / limit[1]);
+  const paused = polarRateLimiter.waitSeconds;
+  const detail = `${windows.join("; ")}${paused > 1 ? `. This server holds requests back for ${Math.ceil(paused)} s` : ""}`;
+  return { name, status: used >= 1 ? "error" : used >= RATE_LIMIT_WARNING ? "warning" : "ok", detail };
+}
+
+/**
+ * Local clock against the Date header of the latest AccessLink response
+ */
+export function clockCheck(observation: AccessLinkObservation | null = lastAccessLinkObservation()): DiagnosticCheck {
+  const name = "Clock";
+  if (observation?.serverTime == null) {
+    return { name, status: "skipped", detail: "No AccessLink response with a Date header yet" };
+  }
+
+  // The Date header has whole seconds
+  const skewSeconds = Math.round((observation.receivedAt - observation.serverTime) / 1000);
+  if (Math.abs(skewSeconds) * 1000 > MAX_CLOCK_SKEW_MS) {
+    return {
+      name,
+      status: "warning",
+      detail: `Local clock is ${Math.abs(skewSeconds)} s ${skewSeconds > 0 ? "ahead of" : "behind"} AccessLink; dates such as "today" may be off. Sync the system clock.`,
+    };
+  }
+  return { name, status: "ok", detail: `Within ${Math.max(1, Math.abs(skewSeconds))} s of AccessLink` };
+}
+
+export function overallStatus(checks: DiagnosticCheck[]): DiagnosticsReport["status"] {
+  if (checks.some((check) => check.status === "error")) return "error";
+  if (checks.some((check) => check.status === "warning")) return "warning";
+  return "ok";
+}
+
+/**
+ * Run every check for one account. Data is only probed for the categories
+ * the client was granted, and not at all when the token does not work.
+ */
+export async function diagnoseAccount(
+  client: PolarClient,
+  options: { categories?: DataCategory[] } = {}
+): Promise<DiagnosticsReport> {
+  const checks = await accountChecks(client);
+  const accountWorks = checks.every((check) => check.status === "ok");
+
+  for (const probe of DATA_PROBES) {
+    checks.push(
+      accountWorks
+        ? await dataCheck(client, probe, options.categories)
+        : { name: probe.name, status: "skipped", detail: "Fix the access token and registration first" }
+    );
+  }
+  checks.push(rateLimitCheck(), clockCheck());
+
+  return { status: overallStatus(checks), checkedAt: new Date().toISOString(), checks };
+}
@@ -0,0 +1,192 @@
+/**
+ * Polar AccessLink Error Taxonomy
+ * Every failure talking to AccessLink is raised as a PolarApiError subclass
+ * carrying a hint that tells the model what to do next.
+ */
+
+import type { z } from "zod";
+
+export class PolarApiError extends Error {
+  constructor(
+    message: string,
+    public readonly endpoint: string,
+    public readonly status: number | null,
+    public readonly hint: string
+  ) {
+    super(message);
+    this.name = "PolarApiError";
+  }
+}
+
+/**
+ * 401: the access token is invalid, expired or was revoked by the user
+ */
+export class PolarUnauthorizedError extends PolarApiError {
+  constructor(endpoint: string, body: string) {
+    super(
+      `Polar rejected the access token (401)${body ? `: ${body}` : ""}`,
+      endpoint,
+      401,
+      "The Polar authorization is no longer valid. Ask the user to re-authorize."
+    );
+    this.name = "PolarUnauthorizedError";
+  }
+}
+
+/**
+ * 403: the Polar user has not been registered with this AccessLink client
+ */
+export class PolarUserNotRegisteredError extends PolarApiError {
+  constructor(endpoint: string, body: string) {
+    super(
+      `Polar user is not registered with this AccessLink client (403)${body ? `: ${body}` : ""}`,
+      endpoint,
+      403,
+      "Ask the user to re-authorize so the account is registered with AccessLink again."
+    );
+    this.name = "PolarUserNotRegisteredError";
+  }
+}
+
+/**
+ * 403: the user has not given consent for this data type in Polar Flow
+ */
+export class PolarConsentMissingError extends PolarApiError {
+  constructor(endpoint: string, body: string) {
+    super(
+      `Polar user has not consented to sharing this data (403)${body ? `: ${body}` : ""}`,
+      endpoint,
+      403,
+      "Ask the user to accept the data sharing consents for this app in Polar Flow (Settings → Data sharing), then try again."
+    );
+    this.name = "PolarConsentMissingError";
+  }
+}
+
+/**
+ * 204 / 404 / empty body: nothing recorded for the requested date or ID
+ */
+export class PolarNoDataError extends PolarApiError {
+  constructor(endpoint: string, status: number) {
+    super(`No data available from ${endpoint}`, endpoint, status, noDataHint(endpoint));
+    this.name = "PolarNoDataError";
+  }
+}
+
+/**
+ * 429 or the client-side limiter: the AccessLink quota is used up
+ */
+export class PolarRateLimitedError extends PolarApiError {
+  constructor(
+    endpoint: string,
+    public readonly retryAt: Date | null
+  ) {
+    super(
+      `Polar API rate limit reached${retryAt ? `, retry after ${retryAt.toISOString()}` : ""}`,
+      endpoint,
+      429,
+      retryAt
+        ? `Do not retry before ${retryAt.toISOString()}. Answer with the data already fetched if possible.`
+        : "Wait a few minutes before retrying. Answer with the data already fetched if possible."
+    );
+    this.name = "PolarRateLimitedError";
+  }
+}
+
+/**
+ * One of the remote server's request budgets (see quota.ts) is spent. Raised
+ * before AccessLink is called, so `endpoint` names the tool instead.
+ */
+export class QuotaExceededError extends PolarApiError {
+  constructor(
+    tool: string,
+    budget: string,
+    public readonly retryAt: Date
+  ) {
+    super(
+      `Quota exceeded: ${budget}, retry at ${retryAt.toISOString()}`,
+      tool,
+      429,
+      `Do not call Polar tools again before ${retryAt.toISOString()}. Answer with the data already fetched and tell the user when the quota resets.`
+    );
+    this.name = "QuotaExceededError";
+  }
+}
+
+/**
+ * 5xx after all retries: AccessLink itself is failing
+ */
+export class PolarUpstreamError extends PolarApiError {
+  constructor(endpoint: string, status: number, body: string) {
+    super(
+      `Polar API is unavailable (${status})${body ? `: ${body}` : ""}`,
+      endpoint,
+      status,
+      "Polar AccessLink is having problems. Tell the user and try again later."
+    );
+    this.name = "PolarUpstreamError";
+  }
+}
+
+/**
+ * A Polar response did not match the expected model
+ */
+export class PolarSchemaError extends PolarApiError {
+  constructor(
+    endpoint: string,
+    public readonly issues: z.core.$ZodIssue[],
+    detail: string
+  ) {
+    super(
+      `Unexpected response from Polar endpoint ${endpoint}:\n${detail}`,
+      endpoint,
+      null,
+      "The Polar API response format has changed. Report this to the server maintainer; retrying will not help."
+    );
+    this.name = "PolarSchemaError";
+  }
+}
+
+const NO_DATA_HINTS: Array<[prefix: string, hint: string]> = [
+  ["/exercises", "Exercises are only available for 30 days after upload. Check the exercise ID with get_exercises, or ask the user to sync their device with Polar Flow."],
+  ["/users/sleep", "Sleep data is only available for the last 28 days and requires the watch to be worn overnight."],
+  ["/users/nightly-recharge", "Nightly Recharge data is only available for the last 28 days and requires the watch to be worn overnight."],
+  ["/users/activities/samples", "Activity samples are only available for the last 365 days, at most 28 days per request."],
+  ["/users/activities", "Daily activity is only available for days the device was worn and synced."],
+  ["/users/continuous-heart-rate", "Continuous heart rate requires 24/7 heart rate tracking to be enabled on the device."],
+  ["/users/cardio-load", "Cardio load is only calculated from exercises recorded with heart rate."],
+  ["/users/sleepwise", "SleepWise needs several nights of sleep data from a supported device."],
+  ["/users/biosensing", "Biosensing data requires a device with the Elixir sensor platform (e.g. Grit X2 Pro, Vantage V3, Ignite 3 for temperature; SpO2 only on devices with SpO2 measurement)."],
+];
+
+export function noDataHint(endpoint: string): string {
+  const match = NO_DATA_HINTS.find(([prefix]) => endpoint.startsWith(prefix));
+  return match ? match[1] : "Try a different date or range.";
+}
+
+/**
+ * Map a failed AccessLink response onto the error taxonomy
+ */
+export function polarErrorFromResponse(
+  endpoint: string,
+  status: number,
+  body: string,
+  retryAt: Date | null
+): PolarApiError {
+  switch (true) {
+    case status === 401:
+      return new PolarUnauthorizedError(endpoint, body);
+    case status === 403:
+      return /consent/i.test(body)
+        ? new PolarConsentMissingError(endpoint, body)
+        : new PolarUserNotRegisteredError(endpoint, body);
+    case status === 404:
+      return new PolarNoDataError(endpoint, status);
+    case status === 429:
+      return new PolarRateLimitedError(endpoint, retryAt);
+    case status >= 500:
+      return new PolarUpstreamError(endpoint, status, body);
+    default:
+      return new PolarApiError(`Polar API error (${status}): ${body}`, endpoint, status, "Check the tool arguments and try again.");
+  }
+}
@@ -0,0 +1,264 @@
+/**
+ * FIT Exercise Summary
+ * Turns a decoded FIT file into a compact, model-friendly summary with
+ * optional per-second sample arrays.
+ */
+
+import type { FitFile, FitMessage, FitValue } from "./fit.js";
+
+export interface FitSummaryOptions {
+  /** Include per-second arrays for the selected channels */
+  series?: boolean;
+  /** Channels to include in the series; defaults to every channel with data */
+  fields?: string[];
+  /** Downsample the series to at most this many points */
+  maxPoints?: number;
+}
+
+export interface ChannelStats {
+  min: number;
+  avg: number;
+  max: number;
+  samples: number;
+}
+
+export interface FitSeries {
+  /** Seconds between points after downsampling */
+  intervalSeconds: number;
+  start: string;
+  /** One array per channel; null where the channel had no sample */
+  channels: Record<string, Array<number | null>>;
+}
+
+export interface FitSummary {
+  crcValid: boolean;
+  device: Record<string, string | number>;
+  sessions: Array<Record<string, string | number>>;
+  laps: Array<Record<string, string | number>>;
+  records: {
+    count: number;
+    start?: string;
+    end?: string;
+    channels: Record<string, ChannelStats>;
+  };
+  developerFields: FitFile["developerFields"];
+  series?: FitSeries;
+}
+
+const DEFAULT_MAX_POINTS = 600;
+
+/** Record channels in output order; enhanced_* variants take precedence */
+const RECORD_CHANNELS: Array<[name: string, sources: string[]]> = [
+  ["heart_rate", ["heart_rate"]],
+  ["speed", ["enhanced_speed", "speed"]],
+  ["power", ["power"]],
+  ["cadence", ["cadence"]],
+  ["altitude", ["enhanced_altitude", "altitude"]],
+  ["distance", ["distance"]],
+  ["temperature", ["temperature"]],
+  ["vertical_oscillation", ["vertical_oscillation"]],
+  ["stance_time", ["stance_time"]],
+  ["stance_time_percent", ["stance_time_percent"]],
+  ["step_length", ["step_length"]],
+  ["vertical_ratio", ["vertical_ratio"]],
+];
+
+const SESSION_FIELDS = [
+  "sport",
+  "sub_sport",
+  "start_time",
+  "total_elapsed_time",
+  "total_timer_time",
+  "total_distance",
+  "total_calories",
+  "enhanced_avg_speed",
+  "avg_speed",
+  "enhanced_max_speed",
+  "max_speed",
+  "avg_heart_rate",
+  "max_heart_rate",
+  "avg_cadence",
+  "max_cadence",
+  "avg_power",
+  "max_power",
+  "normalized_power",
+  "total_ascent",
+  "total_descent",
+  "total_training_effect",
+  "avg_vertical_oscillation",
+  "avg_stance_time",
+  "avg_stance_time_percent",
+  "num_laps",
+];
+
+const LAP_FIELDS = [
+  "start_time",
+  "total_elapsed_time",
+  "total_timer_time",
+  "total_distance",
+  "enhanced_avg_speed",
+  "avg_speed",
+  "avg_heart_rate",
+  "max_heart_rate",
+  "avg_cadence",
+  "avg_power",
+  "max_power",
+  "total_ascent",
+  "total_descent",
+  "avg_vertical_oscillation",
+  "avg_stance_time",
+  "lap_trigger",
+];
+
+const DEVICE_FIELDS = ["manufacturer", "product", "product_name", "serial_number", "software_version"];
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function compactValue(value: FitValue | undefined): string | number | undefined {
+  if (value === undefined) return undefined;
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === "number") return round(value);
+  if (Array.isArray(value)) return value.join(",");
+  return value;
+}
+
+function pick(message: FitMessage, fields: string[]): Record<string, string | number> {
+  const result: Record<string, string | number> = {};
+  for (const field of fields) {
+    // Prefer enhanced_* and drop the legacy field when both are present
+    if (!field.startsWith("enhanced_") && result[`enhanced_${field}`] !== undefined) continue;
+    const value = compactValue(message[field] as FitValue | undefined);
+    if (value !== undefined) result[field] = value;
+  }
+  return result;
+}
+
+function numericChannel(record: FitMessage, sources: string[]): number | undefined {
+  for (const source of sources) {
+    const value = record[source];
+    if (typeof value === "number") return value;
+  }
+  return undefined;
+}
+
+function recordChannels(fit: FitFile): Array<[string, (record: FitMessage) => number | undefined]> {
+  const channels: Array<[string, (record: FitMessage) => number | undefined]> = RECORD_CHANNELS.map(
+    ([name, sources]) => [name, (record: FitMessage) => numericChannel(record, sources)]
+  );
+
+  // Developer fields such as Stryd power or running dynamics from third-party apps
+  for (const field of fit.developerFields) {
+    if (field.nativeMessage && field.nativeMessage !== "record") continue;
+    channels.push([
+      field.name,
+      (record) => {
+        const value = record.developer?.[field.name];
+        return typeof value === "number" ? value : undefined;
+      },
+    ]);
+  }
+
+  return channels;
+}
+
+function timestampOf(record: FitMessage): number | undefined {
+  return record.timestamp instanceof Date ? record.timestamp.getTime() : undefined;
+}
+
+function buildSeries(
+  records: FitMessage[],
+  channels: Array<[string, (record: FitMessage) => number | undefined]>,
+  maxPoints: number
+): FitSeries | undefined {
+  const timed = records.filter((record) => timestampOf(record) !== undefined);
+  if (timed.length === 0 || channels.length === 0) return undefined;
+
+  const start = timestampOf(timed[0])!;
+  const end = timestampOf(timed[timed.length - 1])!;
+  const seconds = Math.floor((end - start) / 1000) + 1;
+
+  // Place each record on a one-second grid
+  const grid: Record<string, Array<number | null>> = {};
+  for (const [name] of channels) grid[name] = new Array(seconds).fill(null);
+  for (const record of timed) {
+    const index = Math.floor((timestampOf(record)! - start) / 1000);
+    for (const [name, read] of channels) {
+      const value = read(record);
+      if (value !== undefined) grid[name][index] = value;
+    }
+  }
+
+  // Average consecutive seconds into buckets to stay within maxPoints
+  const bucket = Math.max(1, Math.ceil(seconds / maxPoints));
+  const result: Record<string, Array<number | null>> = {};
+  for (const [name, values] of Object.entries(grid)) {
+    const points: Array<number | null> = [];
+    for (let i = 0; i < values.length; i += bucket) {
+      const present = values.slice(i, i + bucket).filter((value): value is number => value !== null);
+      points.push(present.length ? round(present.reduce((a, b) => a + b, 0) / present.length) : null);
+    }
+    result[name] = points;
+  }
+
+  return {
+    intervalSeconds: bucket,
+    start: new Date(start).toISOString(),
+    channels: result,
+  };
+}
+
+/**
+ * Summarize sessions, laps, devices and record channels of a decoded FIT file
+ */
+export function summarizeFit(fit: FitFile, options: FitSummaryOptions = {}): FitSummary {
+  const channels = recordChannels(fit);
+
+  const stats: Record<string, ChannelStats> = {};
+  for (const [name, read] of channels) {
+    let min = Infinity;
+    let max = -Infinity;
+    let sum = 0;
+    let count = 0;
+    for (const record of fit.records) {
+      const value = read(record);
+      if (value === undefined) continue;
+      min = Math.min(min, value);
+      max = Math.max(max, value);
+      sum += value;
+      count++;
+    }
+    if (count > 0) {
+      stats[name] = { min: round(min), avg: round(sum / count), max: round(max), samples: count };
+    }
+  }
+
+  const creator = fit.deviceInfo.find((device) => device.device_index === 0) ?? fit.fileId;
+  const device = { ...(fit.fileId ? pick(fit.fileId, DEVICE_FIELDS) : {}), ...(creator ? pick(creator, DEVICE_FIELDS) : {}) };
+
+  const first = fit.records.find((record) => record.timestamp instanceof Date);
+  const last = [...fit.records].reverse().find((record) => record.timestamp instanceof Date);
+
+  const summary: FitSummary = {
+    crcValid: fit.crcValid,
+    device,
+    sessions: fit.sessions.map((session) => pick(session, SESSION_FIELDS)),
+    laps: fit.laps.map((lap, index) => ({ lap: index + 1, ...pick(lap, LAP_FIELDS) })),
+    records: {
+      count: fit.records.length,
+      start: compactValue(first?.timestamp as Date | undefined) as string | undefined,
+      end: compactValue(last?.timestamp as Date | undefined) as string | undefined,
+      channels: stats,
+    },
+    developerFields: fit.developerFields,
+  };
+
+  if (options.series) {
+    const wanted = options.fields?.length ? new Set(options.fields) : null;
+    const selected = channels.filter(([name]) => (wanted ? wanted.has(name) : stats[name] !== undefined));
+    summary.series = buildSeries(fit.records, selected, options.maxPoints ?? DEFAULT_MAX_POINTS);
+  }
+
+  return summary;
+}
@@ -0,0 +1,625 @@
+/**
+ * FIT File Decoder
+ * Pure TypeScript decoder for Garmin/ANT FIT activity files, as exported by
+ * AccessLink's /exercises/{id}/fit endpoint. Runs unchanged in Node and Workers.
+ *
+ * Only the profile messages needed for exercise analysis are named; any other
+ * message is counted in `unknownMessages` and skipped.
+ */
+
+/** Seconds between the Unix epoch and the FIT epoch (1989-12-31T00:00:00Z) */
+const FIT_EPOCH_OFFSET = 631065600;
+
+export type FitValue = number | string | number[] | Date;
+
+export interface FitMessage {
+  [field: string]: FitValue | Record<string, FitValue> | undefined;
+  /** Developer field values keyed by their field_name */
+  developer?: Record<string, FitValue>;
+}
+
+export interface FitDeveloperField {
+  developerDataIndex: number;
+  fieldNumber: number;
+  name: string;
+  units?: string;
+  nativeMessage?: string;
+  nativeField?: string;
+}
+
+export interface FitFile {
+  protocolVersion: number;
+  profileVersion: number;
+  crcValid: boolean;
+  fileId?: FitMessage;
+  sessions: FitMessage[];
+  laps: FitMessage[];
+  records: FitMessage[];
+  events: FitMessage[];
+  deviceInfo: FitMessage[];
+  developerFields: FitDeveloperField[];
+  unknownMessages: Record<number, number>;
+}
+
+export class FitDecodeError extends Error {
+  constructor(message: string) {
+    super(`Invalid FIT file: ${message}`);
+    this.name = "FitDecodeError";
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Profile
+// ---------------------------------------------------------------------------
+
+type FieldKind = "timestamp" | "semicircles" | "sport" | "sub_sport" | "manufacturer" | "lap_trigger";
+
+interface FieldProfile {
+  name: string;
+  scale?: number;
+  offset?: number;
+  kind?: FieldKind;
+}
+
+interface MessageProfile {
+  name: string;
+  fields: Record<number, FieldProfile>;
+}
+
+const timestamp: FieldProfile = { name: "timestamp", kind: "timestamp" };
+
+const PROFILE: Record<number, MessageProfile> = {
+  0: {
+    name: "file_id",
+    fields: {
+      0: { name: "type" },
+      1: { name: "manufacturer", kind: "manufacturer" },
+      2: { name: "product" },
+      3: { name: "serial_number" },
+      4: { name: "time_created", kind: "timestamp" },
+      8: { name: "product_name" },
+    },
+  },
+  18: {
+    name: "session",
+    fields: {
+      253: timestamp,
+      2: { name: "start_time", kind: "timestamp" },
+      3: { name: "start_position_lat", kind: "semicircles" },
+      4: { name: "start_position_long", kind: "semicircles" },
+      5: { name: "sport", kind: "sport" },
+      6: { name: "sub_sport", kind: "sub_sport" },
+      7: { name: "total_elapsed_time", scale: 1000 },
+      8: { name: "total_timer_time", scale: 1000 },
+      9: { name: "total_distance", scale: 100 },
+      11: { name: "total_calories" },
+      14: { name: "avg_speed", scale: 1000 },
+      15: { name: "max_speed", scale: 1000 },
+      16: { name: "avg_heart_rate" },
+      17: { name: "max_heart_rate" },
+      18: { name: "avg_cadence" },
+      19: { name: "max_cadence" },
+      20: { name: "avg_power" },
+      21: { name: "max_power" },
+      22: { name: "total_ascent" },
+      23: { name: "total_descent" },
+      24: { name: "total_training_effect", scale: 10 },
+      26: { name: "num_laps" },
+      34: { name: "normalized_power" },
+      89: { name: "avg_vertical_oscillation", scale: 10 },
+      90: { name: "avg_stance_time_percent", scale: 100 },
+      91: { name: "avg_stance_time", scale: 10 },
+      124: { name: "enhanced_avg_speed", scale: 1000 },
+      125: { name: "enhanced_max_speed", scale: 1000 },
+    },
+  },
+  19: {
+    name: "lap",
+    fields: {
+      253: timestamp,
+      2: { name: "start_time", kind: "timestamp" },
+      7: { name: "total_elapsed_time", scale: 1000 },
+      8: { name: "total_timer_time", scale: 1000 },
+      9: { name: "total_distance", scale: 100 },
+      11: { name: "total_calories" },
+      13: { name: "avg_speed", scale: 1000 },
+      14: { name: "max_speed", scale: 1000 },
+      15: { name: "avg_heart_rate" },
+      16: { name: "max_heart_rate" },
+      17: { name: "avg_cadence" },
+      18: { name: "max_cadence" },
+      19: { name: "avg_power" },
+      20: { name: "max_power" },
+      21: { name: "total_ascent" },
+      22: { name: "total_descent" },
+      24: { name: "lap_trigger", kind: "lap_trigger" },
+      25: { name: "sport", kind: "sport" },
+      77: { name: "avg_vertical_oscillation", scale: 10 },
+      79: { name: "avg_stance_time", scale: 10 },
+      110: { name: "enhanced_avg_speed", scale: 1000 },
+      111: { name: "enhanced_max_speed", scale: 1000 },
+    },
+  },
+  20: {
+    name: "record",
+    fields: {
+      253: timestamp,
+      0: { name: "position_lat", kind: "semicircles" },
+      1: { name: "position_long", kind: "semicircles" },
+      2: { name: "altitude", scale: 5, offset: 500 },
+      3: { name: "heart_rate" },
+      4: { name: "cadence" },
+      5: { name: "distance", scale: 100 },
+      6: { name: "speed", scale: 1000 },
+      7: { name: "power" },
+      13: { name: "temperature" },
+      39: { name: "vertical_oscillation", scale: 10 },
+      40: { name: "stance_time_percent", scale: 100 },
+      41: { name: "stance_time", scale: 10 },
+      53: { name: "fractional_cadence", scale: 128 },
+      73: { name: "enhanced_speed", scale: 1000 },
+      78: { name: "enhanced_altitude", scale: 5, offset: 500 },
+      83: { name: "vertical_ratio", scale: 100 },
+      85: { name: "step_length", scale: 10 },
+    },
+  },
+  21: {
+    name: "event",
+    fields: {
+      253: timestamp,
+      0: { name: "event" },
+      1: { name: "event_type" },
+      3: { name: "data" },
+    },
+  },
+  23: {
+    name: "device_info",
+    fields: {
+      253: timestamp,
+      0: { name: "device_index" },
+      1: { name: "device_type" },
+      2: { name: "manufacturer", kind: "manufacturer" },
+      3: { name: "serial_number" },
+      4: { name: "product" },
+      5: { name: "software_version", scale: 100 },
+      6: { name: "hardware_version" },
+      10: { name: "battery_voltage", scale: 256 },
+      11: { name: "battery_status" },
+      27: { name: "product_name" },
+    },
+  },
+  206: {
+    name: "field_description",
+    fields: {
+      0: { name: "developer_data_index" },
+      1: { name: "field_definition_number" },
+      2: { name: "fit_base_type_id" },
+      3: { name: "field_name" },
+      6: { name: "scale" },
+      7: { name: "offset" },
+      8: { name: "units" },
+      14: { name: "native_field_num" },
+      15: { name: "native_mesg_num" },
+    },
+  },
+  207: {
+    name: "developer_data_id",
+    fields: {
+      1: { name: "application_id" },
+      3: { name: "manufacturer_id" },
+      4: { name: "developer_data_index" },
+    },
+  },
+};
+
+const SPORTS: Record<number, string> = {
+  0: "generic",
+  1: "running",
+  2: "cycling",
+  3: "transition",
+  4: "fitness_equipment",
+  5: "swimming",
+  6: "basketball",
+  7: "soccer",
+  8: "tennis",
+  10: "training",
+  11: "walking",
+  12: "cross_country_skiing",
+  13: "alpine_skiing",
+  14: "snowboarding",
+  15: "rowing",
+  16: "mountaineering",
+  17: "hiking",
+  18: "multisport",
+  19: "paddling",
+  21: "e_biking",
+  37: "stand_up_paddleboarding",
+  41: "kayaking",
+  53: "diving",
+  254: "all",
+};
+
+const SUB_SPORTS: Record<number, string> = {
+  0: "generic",
+  1: "treadmill",
+  2: "street",
+  3: "trail",
+  4: "track",
+  5: "spin",
+  6: "indoor_cycling",
+  7: "road",
+  8: "mountain",
+  10: "cyclocross",
+  17: "lap_swimming",
+  18: "open_water",
+  20: "strength_training",
+  26: "cardio_training",
+  45: "virtual_activity",
+};
+
+const MANUFACTURERS: Record<number, string> = {
+  1: "garmin",
+  23: "suunto",
+  32: "wahoo_fitness",
+  123: "polar",
+  255: "development",
+};
+
+const LAP_TRIGGERS: Record<number, string> = {
+  0: "manual",
+  1: "time",
+  2: "distance",
+  3: "position_start",
+  4: "position_lap",
+  5: "position_waypoint",
+  6: "position_marked",
+  7: "session_end",
+  8: "fitness_equipment",
+};
+
+const ENUM_LOOKUPS: Partial<Record<FieldKind, Record<number, string>>> = {
+  sport: SPORTS,
+  sub_sport: SUB_SPORTS,
+  manufacturer: MANUFACTURERS,
+  lap_trigger: LAP_TRIGGERS,
+};
+
+// ---------------------------------------------------------------------------
+// Base types
+// ---------------------------------------------------------------------------
+
+interface BaseType {
+  size: number;
+  invalid?: number | bigint;
+  read?: (view: DataView, offset: number, littleEndian: boolean) => number | bigint;
+}
+
+const BASE_TYPES: Record<number, BaseType> = {
+  0x00: { size: 1, invalid: 0xff, read: (v, o) => v.getUint8(o) }, // enum
+  0x01: { size: 1, invalid: 0x7f, read: (v, o) => v.getInt8(o) }, // sint8
+  0x02: { size: 1, invalid: 0xff, read: (v, o) => v.getUint8(o) }, // uint8
+  0x03: { size: 2, invalid: 0x7fff, read: (v, o, le) => v.getInt16(o, le) }, // sint16
+  0x04: { size: 2, invalid: 0xffff, read: (v, o, le) => v.getUint16(o, le) }, // uint16
+  0x05: { size: 4, invalid: 0x7fffffff, read: (v, o, le) => v.getInt32(o, le) }, // sint32
+  0x06: { size: 4, invalid: 0xffffffff, read: (v, o, le) => v.getUint32(o, le) }, // uint32
+  0x07: { size: 1 }, // string
+  0x08: { size: 4, read: (v, o, le) => v.getFloat32(o, le) }, // float32
+  0x09: { size: 8, read: (v, o, le) => v.getFloat64(o, le) }, // float64
+  0x0a: { size: 1, invalid: 0x00, read: (v, o) => v.getUint8(o) }, // uint8z
+  0x0b: { size: 2, invalid: 0x0000, read: (v, o, le) => v.getUint16(o, le) }, // uint16z
+  0x0c: { size: 4, invalid: 0x00000000, read: (v, o, le) => v.getUint32(o, le) }, // uint32z
+  0x0d: { size: 1, invalid: 0xff, read: (v, o) => v.getUint8(o) }, // byte
+  0x0e: { size: 8, invalid: 0x7fffffffffffffffn, read: (v, o, le) => v.getBigInt64(o, le) }, // sint64
+  0x0f: { size: 8, invalid: 0xffffffffffffffffn, read: (v, o, le) => v.getBigUint64(o, le) }, // uint64
+  0x10: { size: 8, invalid: 0n, read: (v, o, le) => v.getBigUint64(o, le) }, // uint64z
+};
+
+// ---------------------------------------------------------------------------
+// CRC
+// ---------------------------------------------------------------------------
+
+const CRC_TABLE = [
+  0x0000, 0xcc01, 0xd801, 0x1400, 0xf001, 0x3c00, 0x2800, 0xe401,
+  0xa001, 0x6c00, 0x7800, 0xb401, 0x5000, 0x9c01, 0x8801, 0x4400,
+];
+
+function crc16(bytes: Uint8Array, start: number, end: number): number {
+  let crc = 0;
+  for (let i = start; i < end; i++) {
+    const byte = bytes[i];
+    let tmp = CRC_TABLE[crc & 0xf];
+    crc = (crc >> 4) & 0x0fff;
+    crc = crc ^ tmp ^ CRC_TABLE[byte & 0xf];
+    tmp = CRC_TABLE[crc & 0xf];
+    crc = (crc >> 4) & 0x0fff;
+    crc = crc ^ tmp ^ CRC_TABLE[(byte >> 4) & 0xf];
+  }
+  return crc;
+}
+
+// ---------------------------------------------------------------------------
+// Decoder
+// ---------------------------------------------------------------------------
+
+interface FieldDefinition {
+  number: number;
+  size: number;
+  baseType: number;
+}
+
+interface DeveloperFieldDefinition {
+  number: number;
+  size: number;
+  developerDataIndex: number;
+}
+
+interface Definition {
+  globalMessage: number;
+  littleEndian: boolean;
+  fields: FieldDefinition[];
+  developerFields: DeveloperFieldDefinition[];
+  /** Bytes of a data message of this definition */
+  size: number;
+}
+
+interface DeveloperFieldInfo extends FitDeveloperField {
+  baseType: number;
+  scale?: number;
+  offset?: number;
+}
+
+/**
+ * Fail with FitDecodeError, not a RangeError, when a message claims more
+ * bytes than the data section has left
+ */
+function ensureAvailable(offset: number, needed: number, dataEnd: number, what: string): void {
+  if (offset + needed > dataEnd) {
+    throw new FitDecodeError(`${what} at byte ${offset} runs past the end of the data`);
+  }
+}
+
+function readValue(
+  view: DataView,
+  bytes: Uint8Array,
+  offset: number,
+  size: number,
+  baseTypeId: number,
+  littleEndian: boolean
+): number | string | number[] | undefined {
+  const baseType = BASE_TYPES[baseTypeId & 0x1f];
+  if (!baseType) return undefined;
+
+  if ((baseTypeId & 0x1f) === 0x07) {
+    const raw = bytes.subarray(offset, offset + size);
+    const end = raw.indexOf(0);
+    const text = new TextDecoder().decode(end === -1 ? raw : raw.subarray(0, end));
+    return text || undefined;
+  }
+
+  const count = Math.floor(size / baseType.size);
+  const values: number[] = [];
+  for (let i = 0; i < count; i++) {
+    const value = baseType.read!(view, offset + i * baseType.size, littleEndian);
+    if (baseType.invalid !== undefined && value === baseType.invalid) continue;
+    if (typeof value === "number" && Number.isNaN(value)) continue;
+    values.push(Number(value));
+  }
+
+  if (values.length === 0) return undefined;
+  return count === 1 ? values[0] : values;
+}
+
+function applyProfile(value: number | string | number[], field: FieldProfile): FitValue {
+  if (typeof value === "string" || Array.isArray(value)) return value;
+
+  switch (field.kind) {
+    case "timestamp":
+      return new Date((value + FIT_EPOCH_OFFSET) * 1000);
+    case "semicircles":
+      return value * (180 / 2 ** 31);
+    case "sport":
+    case "sub_sport":
+    case "manufacturer":
+    case "lap_trigger":
+      return ENUM_LOOKUPS[field.kind]![value] ?? value;
+  }
+
+  let result = value;
+  if (field.scale) result = result / field.scale;
+  if (field.offset) result = result - field.offset;
+  return result;
+}
+
+/**
+ * Decode a FIT file into named messages
+ */
+export function decodeFit(bytes: Uint8Array): FitFile {
+  if (bytes.byteLength < 12) {
+    throw new FitDecodeError("file is shorter than the FIT header");
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const headerSize = bytes[0];
+  const signature = String.fromCharCode(bytes[8], bytes[9], bytes[10], bytes[11]);
+  if ((headerSize !== 12 && headerSize !== 14) || signature !== ".FIT") {
+    throw new FitDecodeError("missing .FIT signature");
+  }
+
+  const dataSize = view.getUint32(4, true);
+  const dataEnd = headerSize + dataSize;
+  if (dataEnd > bytes.byteLength) {
+    throw new FitDecodeError(`header declares ${dataSize} bytes of data but the file is truncated`);
+  }
+
+  const crcValid =
+    dataEnd + 2 <= bytes.byteLength
+      ? crc16(bytes, 0, dataEnd) === view.getUint16(dataEnd, true)
+      : false;
+
+  const fit: FitFile = {
+    protocolVersion: bytes[1],
+    profileVersion: view.getUint16(2, true),
+    crcValid,
+    sessions: [],
+    laps: [],
+    records: [],
+    events: [],
+    deviceInfo: [],
+    developerFields: [],
+    unknownMessages: {},
+  };
+
+  const definitions = new Map<number, Definition>();
+  const developerFieldInfo = new Map<string, DeveloperFieldInfo>();
+  let lastTimestamp = 0;
+  let offset = headerSize;
+
+  while (offset < dataEnd) {
+    const recordHeader = bytes[offset++];
+
+    // Definition message
+    if ((recordHeader & 0x80) === 0 && (recordHeader & 0x40) !== 0) {
+      const localType = recordHeader & 0x0f;
+      const hasDeveloperData = (recordHeader & 0x20) !== 0;
+      ensureAvailable(offset, 5, dataEnd, "definition message");
+      const littleEndian = bytes[offset + 1] === 0;
+      const globalMessage = view.getUint16(offset + 2, littleEndian);
+      const fieldCount = bytes[offset + 4];
+      offset += 5;
+
+      ensureAvailable(offset, fieldCount * 3, dataEnd, "field definitions");
+      const fields: FieldDefinition[] = [];
+      for (let i = 0; i < fieldCount; i++) {
+        fields.push({ number: bytes[offset], size: bytes[offset + 1], baseType: bytes[offset + 2] });
+        offset += 3;
+      }
+
+      const developerFields: DeveloperFieldDefinition[] = [];
+      if (hasDeveloperData) {
+        ensureAvailable(offset, 1, dataEnd, "developer field count");
+        const developerCount = bytes[offset++];
+        ensureAvailable(offset, developerCount * 3, dataEnd, "developer field definitions");
+        for (let i = 0; i < developerCount; i++) {
+          developerFields.push({
+            number: bytes[offset],
+            size: bytes[offset + 1],
+            developerDataIndex: bytes[offset + 2],
+          });
+          offset += 3;
+        }
+      }
+
+      const size = [...fields, ...developerFields].reduce((sum, field) => sum + field.size, 0);
+      definitions.set(localType, { globalMessage, littleEndian, fields, developerFields, size });
+      continue;
+    }
+
+    // Data message, normal or with compressed timestamp header
+    const compressed = (recordHeader & 0x80) !== 0;
+    const localType = compressed ? (recordHeader >> 5) & 0x03 : recordHeader & 0x0f;
+    const definition = definitions.get(localType);
+    if (!definition) {
+      throw new FitDecodeError(`data message for undefined local type ${localType} at byte ${offset - 1}`);
+    }
+
+    ensureAvailable(offset, definition.size, dataEnd, "data message");
+
+    const profile = PROFILE[definition.globalMessage];
+    const message: FitMessage = {};
+
+    if (compressed) {
+      const timeOffset = recordHeader & 0x1f;
+      let next = (lastTimestamp & ~0x1f) + timeOffset;
+      if (timeOffset < (lastTimestamp & 0x1f)) next += 0x20;
+      lastTimestamp = next;
+      message.timestamp = new Date((next + FIT_EPOCH_OFFSET) * 1000);
+    }
+
+    for (const field of definition.fields) {
+      const raw = readValue(view, bytes, offset, field.size, field.baseType, definition.littleEndian);
+      offset += field.size;
+      if (raw === undefined) continue;
+
+      if (field.number === 253 && typeof raw === "number") {
+        lastTimestamp = raw;
+      }
+
+      const fieldProfile = profile?.fields[field.number];
+      if (fieldProfile) {
+        message[fieldProfile.name] = applyProfile(raw, fieldProfile);
+      } else if (profile) {
+        message[`field_${field.number}`] = raw;
+      }
+    }
+
+    for (const field of definition.developerFields) {
+      const info = developerFieldInfo.get(`${field.developerDataIndex}:${field.number}`);
+      const baseType = info ? info.baseType : 0x0d;
+      const raw = readValue(view, bytes, offset, field.size, baseType, definition.littleEndian);
+      offset += field.size;
+      if (raw === undefined) continue;
+
+      const name = info ? info.name : `developer_${field.developerDataIndex}_${field.number}`;
+      message.developer ??= {};
+      message.developer[name] = applyProfile(raw, { name, scale: info?.scale, offset: info?.offset });
+    }
+
+    if (!profile) {
+      fit.unknownMessages[definition.globalMessage] =
+        (fit.unknownMessages[definition.globalMessage] ?? 0) + 1;
+      continue;
+    }
+
+    switch (profile.name) {
+      case "file_id":
+        fit.fileId = message;
+        break;
+      case "session":
+        fit.sessions.push(message);
+        break;
+      case "lap":
+        fit.laps.push(message);
+        break;
+      case "record":
+        fit.records.push(message);
+        break;
+      case "event":
+        fit.events.push(message);
+        break;
+      case "device_info":
+        fit.deviceInfo.push(message);
+        break;
+      case "field_description": {
+        const developerDataIndex = Number(message.developer_data_index ?? 0);
+        const fieldNumber = Number(message.field_definition_number);
+        const nativeMessage = PROFILE[Number(message.native_mesg_num)];
+        const info: DeveloperFieldInfo = {
+          developerDataIndex,
+          fieldNumber,
+          name: String(message.field_name ?? `developer_${developerDataIndex}_${fieldNumber}`),
+          units: message.units as string | undefined,
+          nativeMessage: nativeMessage?.name,
+          nativeField:
+            message.native_field_num !== undefined
+              ? nativeMessage?.fields[Number(message.native_field_num)]?.name
+              : undefined,
+          baseType: Number(message.fit_base_type_id ?? 0x0d),
+          scale: message.scale as number | undefined,
+          offset: message.offset as number | undefined,
+        };
+        developerFieldInfo.set(`${developerDataIndex}:${fieldNumber}`, info);
+        fit.developerFields.push({
+          developerDataIndex: info.developerDataIndex,
+          fieldNumber: info.fieldNumber,
+          name: info.name,
+          units: info.units,
+          nativeMessage: info.nativeMessage,
+          nativeField: info.nativeField,
+        });
+        break;
+      }
+    }
+  }
+
+  return fit;
+}
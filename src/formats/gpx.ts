@@ -0,0 +1,58 @@
+/**
+ * GPX Parser
+ * Extracts track segments and points from GPS Exchange Format exports
+ */
+
+import { elements, number, text } from "./xml.js";
+import { RouteParseError, type TrackPoint } from "./route.js";
+
+export interface GpxTrack {
+  name?: string;
+  /** Each <trkseg>, in order */
+  segments: TrackPoint[][];
+}
+
+function parseTime(value: string | undefined): Date | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+function parseCoordinate(value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+/**
+ * Parse all tracks of a GPX document. Heart rate and cadence are read from
+ * the Garmin TrackPointExtension when present.
+ */
+export function parseGpx(xml: string): GpxTrack[] {
+  if (!/<(?:[\w.-]+:)?gpx\b/.test(xml)) {
+    throw new RouteParseError("GPX", "no <gpx> element");
+  }
+
+  return elements(xml, "trk").map((track) => ({
+    name: text(track.inner.split(/<(?:[\w.-]+:)?trkseg\b/)[0], "name"),
+    segments: elements(track.inner, "trkseg").map((segment) =>
+      elements(segment.inner, "trkpt").map(
+        (point): TrackPoint => ({
+          lat: parseCoordinate(point.attributes.lat),
+          lon: parseCoordinate(point.attributes.lon),
+          elevation: number(point.inner, "ele"),
+          time: parseTime(text(point.inner, "time")),
+          heartRate: number(point.inner, "hr"),
+          cadence: number(point.inner, "cad"),
+        })
+      )
+    ),
+  }));
+}
+
+/**
+ * All points of all tracks as one list
+ */
+export function gpxTrackPoints(tracks: GpxTrack[]): TrackPoint[] {
+  return tracks.flatMap((track) => track.segments.flat());
+}
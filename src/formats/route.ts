@@ -0,0 +1,342 @@
+/**
+ * Route Statistics
+ * Distance, elevation, timing and a simplified polyline for a GPS track,
+ * shared by the TCX and GPX parsers.
+ */
+
+export class RouteParseError extends Error {
+  constructor(format: "TCX" | "GPX", message: string) {
+    super(`Invalid ${format} file: ${message}`);
+    this.name = "RouteParseError";
+  }
+}
+
+export interface TrackPoint {
+  time?: Date;
+  lat?: number;
+  lon?: number;
+  /** Metres above sea level */
+  elevation?: number;
+  heartRate?: number;
+  cadence?: number;
+  /** Cumulative distance reported by the device, in metres */
+  distance?: number;
+}
+
+export interface RouteOptions {
+  /** Douglas–Peucker tolerance in metres */
+  toleranceMeters?: number;
+  /** Upper bound for the simplified polyline; the tolerance grows until it fits */
+  maxPolylinePoints?: number;
+  /** Points in the elevation profile */
+  profilePoints?: number;
+}
+
+export interface RouteStats {
+  points: number;
+  distanceMeters: number;
+  elapsedSeconds?: number;
+  movingSeconds?: number;
+  start?: string;
+  end?: string;
+  boundingBox?: { minLat: number; minLon: number; maxLat: number; maxLon: number };
+  elevation?: {
+    min: number;
+    max: number;
+    totalAscent: number;
+    totalDescent: number;
+    /** [distance km, elevation m] pairs */
+    profile: Array<[number, number]>;
+  };
+  heartRate?: { avg: number; max: number };
+  /** Simplified [lat, lon] polyline */
+  polyline: Array<[number, number]>;
+  polylineToleranceMeters: number;
+}
+
+const EARTH_RADIUS_METERS = 6371008.8;
+
+/** Below this speed (m/s) a segment counts as stopped */
+const MOVING_SPEED_THRESHOLD = 0.5;
+
+/** Segments with longer gaps (auto-pause, lost signal) are not counted as moving */
+const MAX_MOVING_GAP_SECONDS = 30;
+
+/** Elevation changes smaller than this (metres) are treated as GPS/barometer noise */
+const ELEVATION_HYSTERESIS = 3;
+
+const ELEVATION_SMOOTHING_WINDOW = 5;
+
+/** Granularity of the polyline tolerance search, in metres */
+const TOLERANCE_STEP_METERS = 0.1;
+
+const DEFAULT_OPTIONS: Required<RouteOptions> = {
+  toleranceMeters: 10,
+  maxPolylinePoints: 200,
+  profilePoints: 50,
+};
+
+type Positioned = TrackPoint & { lat: number; lon: number };
+
+function hasPosition(point: TrackPoint): point is Positioned {
+  return point.lat !== undefined && point.lon !== undefined;
+}
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+export function haversineMeters(a: Positioned, b: Positioned): number {
+  const dLat = toRadians(b.lat - a.lat);
+  const dLon = toRadians(b.lon - a.lon);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+function round(value: number, decimals = 1): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Perpendicular distance from p to segment ab, in metres, using an
+ * equirectangular projection around a (accurate enough at route scale)
+ */
+function segmentDistanceMeters(p: Positioned, a: Positioned, b: Positioned): number {
+  const cosLat = Math.cos(toRadians(a.lat));
+  const x = (lon: number) => toRadians(lon - a.lon) * cosLat * EARTH_RADIUS_METERS;
+  const y = (lat: number) => toRadians(lat - a.lat) * EARTH_RADIUS_METERS;
+
+  const bx = x(b.lon);
+  const by = y(b.lat);
+  const px = x(p.lon);
+  const py = y(p.lat);
+  const lengthSquared = bx * bx + by * by;
+  const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, (px * bx + py * by) / lengthSquared));
+  return Math.hypot(px - t * bx, py - t * by);
+}
+
+/**
+ * Douglas–Peucker simplification (iterative, so long tracks cannot overflow the stack)
+ */
+export function simplify(points: Positioned[], toleranceMeters: number): Positioned[] {
+  if (points.length <= 2) return points;
+
+  const keep = new Uint8Array(points.length);
+  keep[0] = 1;
+  keep[points.length - 1] = 1;
+  const stack: Array<[number, number]> = [[0, points.length - 1]];
+
+  while (stack.length > 0) {
+    const [first, last] = stack.pop()!;
+    let maxDistance = 0;
+    let index = -1;
+    for (let i = first + 1; i < last; i++) {
+      const distance = segmentDistanceMeters(points[i], points[first], points[last]);
+      if (distance > maxDistance) {
+        maxDistance = distance;
+        index = i;
+      }
+    }
+    if (index !== -1 && maxDistance > toleranceMeters) {
+      keep[index] = 1;
+      stack.push([first, index], [index, last]);
+    }
+  }
+
+  return points.filter((_, i) => keep[i] === 1);
+}
+
+/**
+ * For each point, the largest tolerance at which Douglas–Peucker still keeps
+ * it: its distance when it split a segment, capped by that of the point that
+ * split the enclosing segment. simplify(points, t) keeps exactly the points
+ * above t, so one pass serves every tolerance.
+ */
+function significance(points: Positioned[]): Float64Array {
+  const result = new Float64Array(points.length);
+  result[0] = Infinity;
+  result[points.length - 1] = Infinity;
+  const stack: Array<[number, number, number]> = [[0, points.length - 1, Infinity]];
+
+  while (stack.length > 0) {
+    const [first, last, cap] = stack.pop()!;
+    let maxDistance = 0;
+    let index = -1;
+    for (let i = first + 1; i < last; i++) {
+      const distance = segmentDistanceMeters(points[i], points[first], points[last]);
+      if (distance > maxDistance) {
+        maxDistance = distance;
+        index = i;
+      }
+    }
+    if (index !== -1) {
+      result[index] = Math.min(maxDistance, cap);
+      stack.push([first, index, result[index]], [index, last, result[index]]);
+    }
+  }
+  return result;
+}
+
+/**
+ * The simplification at the smallest tolerance (from `toleranceMeters` up, in
+ * TOLERANCE_STEP_METERS steps) that keeps at most `maxPoints` points
+ */
+function fitPolyline(
+  points: Positioned[],
+  toleranceMeters: number,
+  maxPoints: number
+): { tolerance: number; simplified: Positioned[] } {
+  if (points.length <= 2) return { tolerance: toleranceMeters, simplified: points };
+
+  // Both ends are always kept; the rest compete for the remaining budget
+  const ranks = significance(points);
+  const interior = Array.from(ranks.subarray(1, -1)).sort((a, b) => b - a);
+  const budget = Math.max(0, maxPoints - 2);
+  let tolerance = toleranceMeters;
+  if (interior.length > budget && interior[budget] > tolerance) {
+    // Points at exactly the tolerance are dropped, so the next ranked point is the first to go
+    tolerance = round(Math.ceil(interior[budget] / TOLERANCE_STEP_METERS) * TOLERANCE_STEP_METERS);
+    if (tolerance < interior[budget]) tolerance = round(tolerance + TOLERANCE_STEP_METERS);
+  }
+  return { tolerance, simplified: points.filter((_, i) => ranks[i] > tolerance) };
+}
+
+/** Smallest and largest value, without spreading long tracks into call arguments */
+function extent(values: Iterable<number>): { min: number; max: number } {
+  let min = Infinity;
+  let max = -Infinity;
+  for (const value of values) {
+    if (value < min) min = value;
+    if (value > max) max = value;
+  }
+  return { min, max };
+}
+
+function smooth(values: number[], window: number): number[] {
+  const half = Math.floor(window / 2);
+  return values.map((_, i) => {
+    const slice = values.slice(Math.max(0, i - half), i + half + 1);
+    return slice.reduce((a, b) => a + b, 0) / slice.length;
+  });
+}
+
+function ascentDescent(elevations: number[]): { ascent: number; descent: number } {
+  const smoothed = smooth(elevations, ELEVATION_SMOOTHING_WINDOW);
+  let ascent = 0;
+  let descent = 0;
+  let reference = smoothed[0];
+  for (const elevation of smoothed) {
+    const delta = elevation - reference;
+    if (delta >= ELEVATION_HYSTERESIS) {
+      ascent += delta;
+      reference = elevation;
+    } else if (delta <= -ELEVATION_HYSTERESIS) {
+      descent -= delta;
+      reference = elevation;
+    }
+  }
+  return { ascent, descent };
+}
+
+/**
+ * Compute route statistics for a track
+ */
+export function routeStats(track: TrackPoint[], options: RouteOptions = {}): RouteStats {
+  const settings: Required<RouteOptions> = {
+    toleranceMeters: options.toleranceMeters ?? DEFAULT_OPTIONS.toleranceMeters,
+    maxPolylinePoints: options.maxPolylinePoints ?? DEFAULT_OPTIONS.maxPolylinePoints,
+    profilePoints: options.profilePoints ?? DEFAULT_OPTIONS.profilePoints,
+  };
+  const positioned = track.filter(hasPosition);
+
+  // Cumulative distance along the track: GPS where available, device distance otherwise
+  const cumulative: number[] = [];
+  let distance = 0;
+  let previous: Positioned | undefined;
+  for (const point of track) {
+    if (hasPosition(point)) {
+      if (previous) distance += haversineMeters(previous, point);
+      previous = point;
+    } else if (point.distance !== undefined) {
+      distance = Math.max(distance, point.distance);
+    }
+    cumulative.push(distance);
+  }
+
+  const stats: RouteStats = {
+    points: track.length,
+    distanceMeters: round(distance),
+    polyline: [],
+    polylineToleranceMeters: settings.toleranceMeters,
+  };
+
+  // Timing
+  const timed = track.map((point, i) => ({ point, i })).filter(({ point }) => point.time !== undefined);
+  if (timed.length >= 2) {
+    const first = timed[0].point.time!;
+    const last = timed[timed.length - 1].point.time!;
+    stats.start = first.toISOString();
+    stats.end = last.toISOString();
+    stats.elapsedSeconds = Math.round((last.getTime() - first.getTime()) / 1000);
+
+    let moving = 0;
+    for (let k = 1; k < timed.length; k++) {
+      const seconds = (timed[k].point.time!.getTime() - timed[k - 1].point.time!.getTime()) / 1000;
+      if (seconds <= 0 || seconds > MAX_MOVING_GAP_SECONDS) continue;
+      const meters = cumulative[timed[k].i] - cumulative[timed[k - 1].i];
+      if (meters / seconds >= MOVING_SPEED_THRESHOLD) moving += seconds;
+    }
+    stats.movingSeconds = Math.round(moving);
+  }
+
+  // Bounding box
+  if (positioned.length > 0) {
+    const lat = extent(positioned.map((p) => p.lat));
+    const lon = extent(positioned.map((p) => p.lon));
+    stats.boundingBox = {
+      minLat: round(lat.min, 5),
+      minLon: round(lon.min, 5),
+      maxLat: round(lat.max, 5),
+      maxLon: round(lon.max, 5),
+    };
+  }
+
+  // Elevation
+  const withElevation = track.map((point, i) => ({ point, i })).filter(({ point }) => point.elevation !== undefined);
+  if (withElevation.length > 0) {
+    const elevations = withElevation.map(({ point }) => point.elevation!);
+    const { ascent, descent } = ascentDescent(elevations);
+    const { min, max } = extent(elevations);
+    const step = Math.max(1, Math.ceil(withElevation.length / settings.profilePoints));
+    const profile: Array<[number, number]> = [];
+    for (let k = 0; k < withElevation.length; k += step) {
+      profile.push([round(cumulative[withElevation[k].i] / 1000, 2), round(elevations[k])]);
+    }
+    stats.elevation = {
+      min: round(min),
+      max: round(max),
+      totalAscent: Math.round(ascent),
+      totalDescent: Math.round(descent),
+      profile,
+    };
+  }
+
+  // Heart rate
+  const heartRates = track.map((point) => point.heartRate).filter((hr): hr is number => hr !== undefined);
+  if (heartRates.length > 0) {
+    stats.heartRate = {
+      avg: Math.round(heartRates.reduce((a, b) => a + b, 0) / heartRates.length),
+      max: extent(heartRates).max,
+    };
+  }
+
+  // Simplified polyline, loosening the tolerance until it fits the budget
+  const { tolerance, simplified } = fitPolyline(positioned, settings.toleranceMeters, settings.maxPolylinePoints);
+  stats.polyline = simplified.map((p) => [round(p.lat, 5), round(p.lon, 5)]);
+  stats.polylineToleranceMeters = tolerance;
+
+  return stats;
+}
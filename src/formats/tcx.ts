@@ -0,0 +1,90 @@
+/**
+ * TCX Parser
+ * Extracts laps and trackpoints from Training Center XML exports
+ */
+
+import { elements, number, text } from "./xml.js";
+import { RouteParseError, type TrackPoint } from "./route.js";
+
+export interface TcxLap {
+  startTime?: string;
+  totalTimeSeconds?: number;
+  distanceMeters?: number;
+  calories?: number;
+  averageHeartRate?: number;
+  maximumHeartRate?: number;
+  maximumSpeed?: number;
+  cadence?: number;
+  intensity?: string;
+  triggerMethod?: string;
+}
+
+export interface TcxActivity {
+  sport?: string;
+  id?: string;
+  laps: TcxLap[];
+  trackpoints: TrackPoint[];
+}
+
+function parseTime(value: string | undefined): Date | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+function parseTrackpoint(xml: string): TrackPoint {
+  const [position] = elements(xml, "Position");
+  const [heartRate] = elements(xml, "HeartRateBpm");
+  return {
+    time: parseTime(text(xml, "Time")),
+    lat: position ? number(position.inner, "LatitudeDegrees") : undefined,
+    lon: position ? number(position.inner, "LongitudeDegrees") : undefined,
+    elevation: number(xml, "AltitudeMeters"),
+    distance: number(xml, "DistanceMeters"),
+    heartRate: heartRate ? number(heartRate.inner, "Value") : undefined,
+    cadence: number(xml, "Cadence") ?? number(xml, "RunCadence"),
+  };
+}
+
+/**
+ * Parse the first activity of a TCX document
+ */
+export function parseTcx(xml: string): TcxActivity {
+  const [activity] = elements(xml, "Activity");
+  if (!activity) {
+    throw new RouteParseError("TCX", "no <Activity> element");
+  }
+
+  const laps: TcxLap[] = [];
+  const trackpoints: TrackPoint[] = [];
+
+  for (const lap of elements(activity.inner, "Lap")) {
+    // Summary fields sit before the <Track>; keep trackpoint values out of them
+    const summary = lap.inner.split(/<(?:[\w.-]+:)?Track\b/)[0];
+    const [averageHeartRate] = elements(summary, "AverageHeartRateBpm");
+    const [maximumHeartRate] = elements(summary, "MaximumHeartRateBpm");
+    laps.push({
+      startTime: lap.attributes.StartTime,
+      totalTimeSeconds: number(summary, "TotalTimeSeconds"),
+      distanceMeters: number(summary, "DistanceMeters"),
+      calories: number(summary, "Calories"),
+      averageHeartRate: averageHeartRate ? number(averageHeartRate.inner, "Value") : undefined,
+      maximumHeartRate: maximumHeartRate ? number(maximumHeartRate.inner, "Value") : undefined,
+      maximumSpeed: number(summary, "MaximumSpeed"),
+      cadence: number(summary, "Cadence"),
+      intensity: text(summary, "Intensity"),
+      triggerMethod: text(summary, "TriggerMethod"),
+    });
+
+    for (const trackpoint of elements(lap.inner, "Trackpoint")) {
+      trackpoints.push(parseTrackpoint(trackpoint.inner));
+    }
+  }
+
+  return {
+    sport: activity.attributes.Sport,
+    id: text(activity.inner.split(/<(?:[\w.-]+:)?Lap\b/)[0], "Id"),
+    laps,
+    trackpoints,
+  };
+}
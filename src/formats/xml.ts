@@ -0,0 +1,73 @@
+/**
+ * Minimal XML Scanning
+ * Just enough to pull elements out of TCX and GPX documents. Workers have no
+ * DOMParser, and both formats are flat enough that a full parser is not needed.
+ */
+
+export interface XmlElement {
+  attributes: Record<string, string>;
+  /** Raw inner XML; empty for self-closing elements */
+  inner: string;
+}
+
+const ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+};
+
+export function decodeEntities(text: string): string {
+  return text
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, "$1")
+    .replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+      if (entity[0] === "#") {
+        const code = entity[1].toLowerCase() === "x" ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+        return Number.isNaN(code) ? match : String.fromCodePoint(code);
+      }
+      return ENTITIES[entity] ?? match;
+    });
+}
+
+function parseAttributes(raw: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of raw.matchAll(/([\w:.-]+)\s*=\s*("([^"]*)"|'([^']*)')/g)) {
+    const name = match[1].includes(":") ? match[1].split(":").pop()! : match[1];
+    attributes[name] = decodeEntities(match[3] ?? match[4] ?? "");
+  }
+  return attributes;
+}
+
+/**
+ * All elements with the given local name (namespace prefixes are ignored).
+ * Elements of the same name must not nest, which holds for every tag we read.
+ */
+export function elements(xml: string, tag: string): XmlElement[] {
+  const pattern = new RegExp(
+    `<(?:[\\w.-]+:)?${tag}\\b([^>]*?)(?:/>|>([\\s\\S]*?)</(?:[\\w.-]+:)?${tag}\\s*>)`,
+    "g"
+  );
+  const result: XmlElement[] = [];
+  for (const match of xml.matchAll(pattern)) {
+    result.push({ attributes: parseAttributes(match[1]), inner: match[2] ?? "" });
+  }
+  return result;
+}
+
+/**
+ * Text content of the first element with the given local name
+ */
+export function text(xml: string, tag: string): string | undefined {
+  const [element] = elements(xml, tag);
+  if (!element) return undefined;
+  const value = decodeEntities(element.inner.replace(/<[^>]+>/g, "")).trim();
+  return value || undefined;
+}
+
+export function number(xml: string, tag: string): number | undefined {
+  const value = text(xml, tag);
+  if (value === undefined) return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
@@ -0,0 +1,252 @@
+/**
+ * JSONL History Store
+ * One `<kind>.jsonl` file per record kind (one per day for bulky kinds such as
+ * activity samples), rewritten atomically on change, plus `sync-state.json`
+ * holding open transaction checkpoints.
+ * Used by the stdio server and `npm run sync`, which may run at the same
+ * time: writes re-read the file under a lock file, and reads notice when
+ * another process changed it. The Worker has no filesystem.
+ */
+
+import { mkdir, open, readdir, readFile, rename, rm, rmdir, stat, writeFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { dirname, join, resolve } from "node:path";
+import { setTimeout as sleep } from "node:timers/promises";
+import { HISTORY_KINDS, inDateRange } from "./history.js";
+import type { HistoryKind, HistoryRecord, HistoryStore } from "./history.js";
+import type { TransactionType } from "./polar-client.js";
+import type { SyncCheckpoint, SyncStateStore } from "./sync.js";
+
+/**
+ * Store configured by POLAR_HISTORY_DIR (default ~/.polar-mcp-server/history),
+ * or undefined when it is set to "off". Each profile gets a subdirectory.
+ */
+export function openHistoryStore(
+  env: NodeJS.ProcessEnv = process.env,
+  profile?: string
+): JsonlHistoryStore | undefined {
+  const dir = env.POLAR_HISTORY_DIR ?? join(homedir(), ".polar-mcp-server", "history");
+  if (dir === "off") return undefined;
+  return new JsonlHistoryStore(profile ? join(dir, profile) : dir);
+}
+
+/** File name (without .jsonl) for records of a per-day kind that carry no date */
+const UNDATED = "undated";
+
+/** How long a write waits for another process's lock */
+const LOCK_WAIT_MS = 10_000;
+/** Age after which a lock counts as left behind by a crashed process */
+const STALE_LOCK_MS = 30_000;
+
+interface LoadedFile {
+  /** Modification time and size of the file when it was read, so a change by another process is noticed */
+  mtimeMs: number;
+  size: number;
+  records: Map<string, HistoryRecord>;
+}
+
+async function readText(path: string): Promise<string> {
+  try {
+    return await readFile(path, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+    return "";
+  }
+}
+
+export class JsonlHistoryStore implements HistoryStore, SyncStateStore {
+  /** Directory holding the `<kind>.jsonl` files and sync-state.json */
+  readonly dir: string;
+  /** Records read per file path */
+  private readonly cache = new Map<string, LoadedFile>();
+
+  constructor(dir: string) {
+    this.dir = resolve(dir);
+  }
+
+  /**
+   * File holding a kind's records: `<kind>.jsonl`, or for kinds stored per
+   * day `<kind>/<date>.jsonl`
+   */
+  private path(kind: HistoryKind, date?: string): string {
+    if (!HISTORY_KINDS[kind].perDay) return join(this.dir, `${kind}.jsonl`);
+    // The date comes from the record; only a plain calendar date may name a file
+    const day = date && /^\d{4}-\d{2}-\d{2}$/.test(date) ? date : UNDATED;
+    return join(this.dir, kind, `${day}.jsonl`);
+  }
+
+  /** The files of a kind that can hold records within [from, to] */
+  private async paths(kind: HistoryKind, from?: string, to?: string): Promise<string[]> {
+    if (!HISTORY_KINDS[kind].perDay) return [this.path(kind)];
+    const names = await readdir(join(this.dir, kind)).catch((error: NodeJS.ErrnoException) => {
+      if (error.code !== "ENOENT") throw error;
+      return [];
+    });
+    return names
+      .filter((name) => name.endsWith(".jsonl"))
+      .map((name) => name.slice(0, -".jsonl".length))
+      .filter((date) => inDateRange(date === UNDATED ? undefined : date, from, to))
+      .map((date) => join(this.dir, kind, `${date}.jsonl`));
+  }
+
+  private async load(kind: HistoryKind, path: string): Promise<Map<string, HistoryRecord>> {
+    const stats = await stat(path).catch((error: NodeJS.ErrnoException) => {
+      if (error.code !== "ENOENT") throw error;
+      return undefined;
+    });
+    const mtimeMs = stats?.mtimeMs ?? 0;
+    const size = stats?.size ?? 0;
+    const cached = this.cache.get(path);
+    if (cached && cached.mtimeMs === mtimeMs && cached.size === size) return cached.records;
+
+    const records = new Map<string, HistoryRecord>();
+    const text = await readText(path);
+    const { key } = HISTORY_KINDS[kind];
+    for (const line of text.split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        const record = JSON.parse(line) as HistoryRecord;
+        records.set(key(record) ?? line, record);
+      } catch {
+        // Skip lines that are not valid JSON (e.g. hand edits); the rest is still usable
+      }
+    }
+
+    this.cache.set(path, { mtimeMs, size, records });
+    return records;
+  }
+
+  async query(kind: HistoryKind, from?: string, to?: string): Promise<HistoryRecord[]> {
+    const { date } = HISTORY_KINDS[kind];
+    const records: HistoryRecord[] = [];
+    for (const path of await this.paths(kind, from, to)) {
+      records.push(...(await this.load(kind, path)).values());
+    }
+    return records.filter((record) => inDateRange(date(record), from, to));
+  }
+
+  async upsert(kind: HistoryKind, records: HistoryRecord[]): Promise<void> {
+    if (records.length === 0) return;
+
+    const { key, date, compact } = HISTORY_KINDS[kind];
+    const byPath = new Map<string, HistoryRecord[]>();
+    for (const fetched of records) {
+      const record = compact ? compact(fetched) : fetched;
+      const path = this.path(kind, date(record));
+      byPath.set(path, [...(byPath.get(path) ?? []), record]);
+    }
+
+    for (const [path, fileRecords] of byPath) {
+      await this.withLock(path, async () => {
+        // Merge into what is on disk now, not what this instance read earlier
+        this.cache.delete(path);
+        const stored = await this.load(kind, path);
+        let changed = false;
+        for (const record of fileRecords) {
+          const id = key(record) ?? JSON.stringify(record);
+          if (JSON.stringify(stored.get(id)) === JSON.stringify(record)) continue;
+          stored.set(id, record);
+          changed = true;
+        }
+        if (!changed) return;
+
+        const lines = [...stored.values()].map((record) => JSON.stringify(record)).join("\n");
+        await this.write(path, `${lines}\n`);
+      });
+    }
+  }
+
+  /**
+   * Delete every stored record and checkpoint, and the directory if nothing
+   * else is in it. Returns the files that were removed.
+   */
+  async clear(): Promise<string[]> {
+    const kinds = Object.keys(HISTORY_KINDS) as HistoryKind[];
+    const paths = [
+      ...(await Promise.all(kinds.map((kind) => this.paths(kind)))).flat(),
+      join(this.dir, "sync-state.json"),
+    ];
+    const removed: string[] = [];
+    for (const path of paths) {
+      try {
+        await rm(path);
+        removed.push(path);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+      }
+    }
+    for (const kind of kinds.filter((kind) => HISTORY_KINDS[kind].perDay)) {
+      await rmdir(join(this.dir, kind)).catch(() => {});
+    }
+    this.cache.clear();
+    await rmdir(this.dir).catch(() => {});
+    return removed;
+  }
+
+  // Sync checkpoints ---------------------------------------------------------
+
+  private async readCheckpoints(): Promise<Partial<Record<TransactionType, SyncCheckpoint>>> {
+    const text = await readText(join(this.dir, "sync-state.json"));
+    return text ? JSON.parse(text) : {};
+  }
+
+  async getCheckpoint(type: TransactionType): Promise<SyncCheckpoint | undefined> {
+    return (await this.readCheckpoints())[type];
+  }
+
+  async setCheckpoint(type: TransactionType, checkpoint: SyncCheckpoint | undefined): Promise<void> {
+    const path = join(this.dir, "sync-state.json");
+    await this.withLock(path, async () => {
+      const checkpoints = await this.readCheckpoints();
+      if (checkpoint) {
+        checkpoints[type] = checkpoint;
+      } else {
+        delete checkpoints[type];
+      }
+      await this.write(path, JSON.stringify(checkpoints, null, 2));
+    });
+  }
+
+  /**
+   * Run `update` holding `<path>.lock`, so two processes never read the same
+   * file, change it differently and write over each other's records
+   */
+  private async withLock<T>(path: string, update: () => Promise<T>): Promise<T> {
+    await mkdir(dirname(path), { recursive: true });
+    const lock = `${path}.lock`;
+    const deadline = Date.now() + LOCK_WAIT_MS;
+    for (;;) {
+      try {
+        await (await open(lock, "wx")).close();
+        break;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "EEXIST") throw error;
+      }
+      const age = await stat(lock).then(
+        (stats) => Date.now() - stats.mtimeMs,
+        () => 0
+      );
+      if (age > STALE_LOCK_MS) {
+        await rm(lock, { force: true });
+      } else if (Date.now() > deadline) {
+        throw new Error(`${lock} is held by another process; delete it if no server or sync is running`);
+      } else {
+        await sleep(50);
+      }
+    }
+    try {
+      return await update();
+    } finally {
+      await rm(lock, { force: true });
+    }
+  }
+
+  /**
+   * Write via a temporary file so a crash never leaves a half-written file
+   */
+  private async write(path: string, contents: string): Promise<void> {
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(`${path}.tmp`, contents);
+    await rename(`${path}.tmp`, path);
+  }
+}
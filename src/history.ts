@@ -0,0 +1,111 @@
+/**
+ * Local History
+ * Record kinds the stdio server keeps beyond AccessLink's 28–30 day window,
+ * and how stored records are keyed, dated and merged with fresh API data.
+ * The on-disk store itself lives in history-store.ts (Node only).
+ */
+
+export type HistoryKind =
+  | "exercises"
+  | "sleep"
+  | "nightly-recharge"
+  | "daily-activity"
+  | "activity-samples"
+  | "cardio-load"
+  | "body-temperature"
+  | "skin-temperature"
+  | "spo2"
+  | "physical-information"
+  | "continuous-heart-rate"
+  | "sleepwise-alertness"
+  | "sleepwise-bedtime";
+
+export type HistoryRecord = Record<string, unknown>;
+
+export interface HistoryStore {
+  /** Stored records of a kind whose date falls within [from, to] (inclusive, YYYY-MM-DD) */
+  query(kind: HistoryKind, from?: string, to?: string): Promise<HistoryRecord[]>;
+  /** Insert records (compacted), replacing any stored record with the same key */
+  upsert(kind: HistoryKind, records: HistoryRecord[]): Promise<void>;
+}
+
+interface HistoryKindInfo {
+  /** Stable identity of a record, so re-fetching replaces rather than duplicates */
+  key: (record: HistoryRecord) => string | undefined;
+  /** Calendar date (YYYY-MM-DD) used for range queries */
+  date: (record: HistoryRecord) => string | undefined;
+  /** Drop bulky detail before storing */
+  compact?: (record: HistoryRecord) => HistoryRecord;
+  /** Records too bulky for one file per kind; file stores keep one file per date */
+  perDay?: boolean;
+}
+
+function field(name: string): (record: HistoryRecord) => string | undefined {
+  return (record) => (typeof record[name] === "string" ? (record[name] as string) : undefined);
+}
+
+function dayOf(name: string): (record: HistoryRecord) => string | undefined {
+  return (record) => field(name)(record)?.slice(0, 10);
+}
+
+function spo2Date(record: HistoryRecord): string | undefined {
+  const time = record.test_time;
+  if (typeof time === "string") return time.slice(0, 10);
+  if (typeof time !== "number") return undefined;
+  // Epoch seconds or milliseconds
+  return new Date(time < 1e12 ? time * 1000 : time).toISOString().slice(0, 10);
+}
+
+export const HISTORY_KINDS: Record<HistoryKind, HistoryKindInfo> = {
+  exercises: {
+    // Start time rather than id: transaction exercises carry a different id than /exercises
+    key: field("start_time"),
+    date: dayOf("start_time"),
+    // Per-second samples belong in the FIT export, not the long-term summary store
+    compact: ({ samples: _samples, heart_rate_zones: _zones, ...summary }) => summary,
+  },
+  sleep: { key: field("date"), date: field("date") },
+  "nightly-recharge": { key: field("date"), date: field("date") },
+  "daily-activity": { key: dayOf("start_time"), date: dayOf("start_time") },
+  // Intraday step and zone samples: a day is tens of kilobytes
+  "activity-samples": { key: field("date"), date: field("date"), perDay: true },
+  "cardio-load": { key: field("date"), date: field("date") },
+  "body-temperature": {
+    key: (record) => `${record.source_device_id ?? ""}|${record.start_time}`,
+    date: dayOf("start_time"),
+  },
+  "skin-temperature": { key: field("sleep_date"), date: field("sleep_date") },
+  spo2: {
+    key: (record) => `${record.source_device_id ?? ""}|${record.test_time}`,
+    date: spo2Date,
+  },
+  "physical-information": { key: field("created"), date: dayOf("created") },
+  "continuous-heart-rate": { key: field("date"), date: field("date") },
+  "sleepwise-alertness": { key: field("period_start_time"), date: dayOf("period_start_time") },
+  "sleepwise-bedtime": { key: field("period_start_time"), date: dayOf("period_start_time") },
+};
+
+export function inDateRange(date: string | undefined, from?: string, to?: string): boolean {
+  if (!date) return !from && !to;
+  return (!from || date >= from) && (!to || date <= to);
+}
+
+/**
+ * Combine stored and fresh records of a kind, fresh data winning on the same
+ * key, restricted to [from, to] and sorted by date
+ */
+export function mergeHistory(
+  kind: HistoryKind,
+  fresh: HistoryRecord[],
+  stored: HistoryRecord[],
+  from?: string,
+  to?: string
+): HistoryRecord[] {
+  const { key, date } = HISTORY_KINDS[kind];
+  const merged = new Map<string, HistoryRecord>();
+  for (const record of [...stored, ...fresh]) {
+    if (!inDateRange(date(record), from, to)) continue;
+    merged.set(key(record) ?? JSON.stringify(record), record);
+  }
+  return [...merged.values()].sort((a, b) => (date(a) ?? "").localeCompare(date(b) ?? ""));
+}
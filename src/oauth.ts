@@ -0,0 +1,100 @@
+/**
+ * Polar OAuth2 Primitives
+ * Shared by the local auth helper and the Worker's /authorize and /callback
+ */
+
+import { z } from "zod";
+import { constantTimeEqual } from "./webhooks.js";
+
+export const POLAR_AUTH_URL = "https://flow.polar.com/oauth2/authorization";
+export const POLAR_TOKEN_URL = "https://polarremote.com/v2/oauth2/token";
+
+/** Give up on the token endpoint rather than hang a callback request */
+const TOKEN_TIMEOUT_MS = 15_000;
+
+const PolarTokenResponseSchema = z.object({
+  access_token: z.string().min(1),
+  token_type: z.string().optional(),
+  x_user_id: z.number().int().positive(),
+  expires_in: z.number().optional(),
+});
+
+export type PolarTokenResponse = z.infer<typeof PolarTokenResponseSchema>;
+
+export interface OAuthClientCredentials {
+  clientId: string;
+  clientSecret: string;
+}
+
+/**
+ * Unguessable `state` for one authorization round trip
+ */
+export function createOAuthState(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Compare the `state` Polar sent back with the one we issued, in constant time
+ */
+export function isExpectedState(received: string | null | undefined, expected: string): boolean {
+  return typeof received === "string" && constantTimeEqual(received, expected);
+}
+
+export function polarAuthorizeUrl(clientId: string, redirectUri: string, state: string): string {
+  const url = new URL(POLAR_AUTH_URL);
+  url.searchParams.set("response_type", "code");
+  url.searchParams.set("client_id", clientId);
+  url.searchParams.set("redirect_uri", redirectUri);
+  url.searchParams.set("state", state);
+  return url.toString();
+}
+
+/**
+ * Exchange an authorization code for an access token. The response is
+ * validated, and error bodies are shortened so they cannot flood logs or pages.
+ */
+export async function exchangeCodeForToken(
+  code: string,
+  client: OAuthClientCredentials,
+  redirectUri: string
+): Promise<PolarTokenResponse> {
+  if (!code) {
+    throw new Error("Polar token exchange failed: no authorization code");
+  }
+
+  const response = await fetch(POLAR_TOKEN_URL, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/x-www-form-urlencoded",
+      Authorization: `Basic ${btoa(`${client.clientId}:${client.clientSecret}`)}`,
+      Accept: "application/json",
+    },
+    body: new URLSearchParams({
+      grant_type: "authorization_code",
+      code,
+      redirect_uri: redirectUri,
+    }).toString(),
+    signal: AbortSignal.timeout(TOKEN_TIMEOUT_MS),
+  });
+
+  if (!response.ok) {
+    const errorText = (await response.text()).slice(0, 200);
+    throw new Error(`Polar token exchange failed (${response.status}): ${errorText}`);
+  }
+
+  const parsed = PolarTokenResponseSchema.safeParse(await response.json());
+  if (!parsed.success) {
+    throw new Error(`Polar token exchange returned an unexpected response: ${z.prettifyError(parsed.error)}`);
+  }
+  return parsed.data;
+}
+
+export function escapeHtml(str: string): string {
+  return str
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#039;");
+}
@@ -0,0 +1,421 @@
+/**
+ * Typed Polar AccessLink v3 Client
+ * Wraps the endpoints used by the MCP tools and validates every response
+ */
+
+import { z } from "zod";
+import { POLAR_API_BASE, polarApiRequest, polarDownload, polarFetch } from "./polar-api.js";
+import { PolarNoDataError, PolarSchemaError } from "./errors.js";
+import {
+  PolarUserSchema,
+  PhysicalInformationSchema,
+  ExerciseSchema,
+  ExerciseListSchema,
+  SleepNightSchema,
+  SleepListSchema,
+  NightlyRechargeSchema,
+  NightlyRechargeListSchema,
+  DailyActivitySchema,
+  DailyActivityListSchema,
+  ActivitySamplesSchema,
+  ActivitySamplesListSchema,
+  ContinuousHeartRateSchema,
+  ContinuousHeartRateListSchema,
+  CardioLoadListSchema,
+  AlertnessListSchema,
+  CircadianBedtimeListSchema,
+  BodyTemperatureListSchema,
+  SkinTemperatureListSchema,
+  Spo2TestListSchema,
+  TransactionLocationSchema,
+  TransactionItemsSchema,
+  TransactionExerciseSchema,
+  ActivitySummarySchema,
+  WebhookResponseSchema,
+} from "./polar-models.js";
+import type {
+  PolarUser,
+  PhysicalInformation,
+  Exercise,
+  SleepNight,
+  NightlyRecharge,
+  DailyActivity,
+  ActivitySamples,
+  ContinuousHeartRate,
+  CardioLoad,
+  Alertness,
+  CircadianBedtime,
+  BodyTemperaturePeriod,
+  SkinTemperature,
+  Spo2Test,
+  TransactionItems,
+  TransactionExercise,
+  ActivitySummary,
+  WebhookInfo,
+} from "./polar-models.js";
+
+export interface DateRange {
+  from?: string;
+  to?: string;
+}
+
+export interface ExerciseOptions {
+  samples?: boolean;
+  zones?: boolean;
+}
+
+export type ExportFormat = "fit" | "tcx" | "gpx";
+
+export type TransactionType = "exercise" | "activity" | "physical-information";
+
+/** List key in the transaction body holding the item URLs */
+const TRANSACTION_ITEM_KEYS: Record<TransactionType, keyof TransactionItems> = {
+  exercise: "exercises",
+  activity: "activity-log",
+  "physical-information": "physical-informations",
+};
+
+/** Accept header sent to AccessLink and MIME type reported to MCP clients */
+export const EXPORT_MEDIA_TYPES: Record<ExportFormat, { accept: string; mimeType: string }> = {
+  fit: { accept: "*/*", mimeType: "application/vnd.ant.fit" },
+  tcx: { accept: "application/vnd.garmin.tcx+xml", mimeType: "application/vnd.garmin.tcx+xml" },
+  gpx: { accept: "application/gpx+xml", mimeType: "application/gpx+xml" },
+};
+
+export interface ExerciseExport {
+  exerciseId: string;
+  format: ExportFormat;
+  mimeType: string;
+  filename: string;
+  bytes: Uint8Array;
+}
+
+/**
+ * Append only the defined query parameters to an endpoint
+ */
+export function withQuery(path: string, query: Record<string, string | undefined>): string {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    if (value) params.append(key, value);
+  }
+  const queryString = params.toString();
+  return `${path}${queryString ? `?${queryString}` : ""}`;
+}
+
+function exerciseQuery(options: ExerciseOptions): Record<string, string | undefined> {
+  return {
+    samples: options.samples ? "true" : undefined,
+    zones: options.zones ? "true" : undefined,
+  };
+}
+
+function validate<T extends z.ZodType>(endpoint: string, schema: T, result: unknown): z.infer<T> {
+  const parsed = schema.safeParse(result);
+  if (!parsed.success) {
+    throw new PolarSchemaError(endpoint, parsed.error.issues, z.prettifyError(parsed.error));
+  }
+  return parsed.data;
+}
+
+export class PolarClient {
+  /**
+   * @param onRequest called with each AccessLink request made, e.g.
+   *   "GET /users/me", so callers can log which endpoints were read
+   */
+  constructor(
+    private readonly accessToken: string,
+    private readonly onRequest?: (request: string) => void
+  ) {}
+
+  private track(method: string | undefined, endpoint: string): void {
+    this.onRequest?.(`${method ?? "GET"} ${endpoint}`);
+  }
+
+  /**
+   * Request an endpoint (GET unless overridden) and validate the body against a schema.
+   * Empty responses surface as PolarNoDataError from polarApiRequest.
+   */
+  private async get<T extends z.ZodType>(
+    endpoint: string,
+    schema: T,
+    options: RequestInit = {}
+  ): Promise<z.infer<T>> {
+    this.track(options.method, endpoint);
+    return validate(endpoint, schema, await polarApiRequest(endpoint, this.accessToken, options));
+  }
+
+  // User ---------------------------------------------------------------------
+
+  getUserInfo(): Promise<PolarUser> {
+    return this.get("/users/me", PolarUserSchema);
+  }
+
+  getPhysicalInfo(): Promise<PhysicalInformation> {
+    return this.get("/users/physical-information", PhysicalInformationSchema);
+  }
+
+  /**
+   * Deregister the user from this AccessLink client. Polar stops sharing
+   * their data with us; the access token is useless afterwards.
+   */
+  async deleteUser(userId: number): Promise<void> {
+    this.track("DELETE", `/users/${userId}`);
+    const response = await polarFetch(`/users/${userId}`, this.accessToken, { method: "DELETE" });
+    await response.body?.cancel();
+  }
+
+  // Exercises ----------------------------------------------------------------
+
+  listExercises(options: ExerciseOptions = {}): Promise<Exercise[]> {
+    return this.get(withQuery("/exercises", exerciseQuery(options)), ExerciseListSchema);
+  }
+
+  getExercise(exerciseId: string, options: ExerciseOptions = {}): Promise<Exercise> {
+    return this.get(withQuery(`/exercises/${exerciseId}`, exerciseQuery(options)), ExerciseSchema);
+  }
+
+  /**
+   * Download an exercise as FIT (binary) or TCX/GPX (XML)
+   */
+  async downloadExercise(exerciseId: string, format: ExportFormat): Promise<ExerciseExport> {
+    const { accept, mimeType } = EXPORT_MEDIA_TYPES[format];
+    this.track("GET", `/exercises/${exerciseId}/${format}`);
+    const bytes = await polarDownload(`/exercises/${exerciseId}/${format}`, this.accessToken, accept);
+    return {
+      exerciseId,
+      format,
+      mimeType,
+      filename: `polar-exercise-${exerciseId}.${format}`,
+      bytes,
+    };
+  }
+
+  // Sleep --------------------------------------------------------------------
+
+  async listSleep(range: DateRange = {}): Promise<SleepNight[]> {
+    const result = await this.get(withQuery("/users/sleep", { ...range }), SleepListSchema);
+    return result.nights;
+  }
+
+  getSleep(date: string): Promise<SleepNight> {
+    return this.get(`/users/sleep/${date}`, SleepNightSchema);
+  }
+
+  // Nightly Recharge ---------------------------------------------------------
+
+  async listNightlyRecharge(range: DateRange = {}): Promise<NightlyRecharge[]> {
+    const result = await this.get(
+      withQuery("/users/nightly-recharge", { ...range }),
+      NightlyRechargeListSchema
+    );
+    return result.recharges;
+  }
+
+  getNightlyRecharge(date: string): Promise<NightlyRecharge> {
+    return this.get(`/users/nightly-recharge/${date}`, NightlyRechargeSchema);
+  }
+
+  // Daily activity -----------------------------------------------------------
+
+  listDailyActivity(range: DateRange = {}): Promise<DailyActivity[]> {
+    return this.get(withQuery("/users/activities", { ...range }), DailyActivityListSchema);
+  }
+
+  getDailyActivity(date: string): Promise<DailyActivity> {
+    return this.get(`/users/activities/${date}`, DailyActivitySchema);
+  }
+
+  listActivitySamples(range: DateRange = {}): Promise<ActivitySamples[]> {
+    return this.get(withQuery("/users/activities/samples", { ...range }), ActivitySamplesListSchema);
+  }
+
+  getActivitySamples(date: string): Promise<ActivitySamples> {
+    return this.get(`/users/activities/samples/${date}`, ActivitySamplesSchema);
+  }
+
+  // Continuous heart rate ----------------------------------------------------
+
+  getContinuousHeartRate(date: string): Promise<ContinuousHeartRate> {
+    return this.get(`/users/continuous-heart-rate/${date}`, ContinuousHeartRateSchema);
+  }
+
+  async listContinuousHeartRate(range: Required<DateRange>): Promise<ContinuousHeartRate[]> {
+    const result = await this.get(
+      withQuery("/users/continuous-heart-rate", { ...range }),
+      ContinuousHeartRateListSchema
+    );
+    return result.heart_rates;
+  }
+
+  // Cardio load --------------------------------------------------------------
+
+  listCardioLoad(): Promise<CardioLoad[]> {
+    return this.get("/users/cardio-load", CardioLoadListSchema);
+  }
+
+  getCardioLoad(date: string): Promise<CardioLoad[]> {
+    return this.get(`/users/cardio-load/${date}`, CardioLoadListSchema);
+  }
+
+  listCardioLoadRange(range: Required<DateRange>): Promise<CardioLoad[]> {
+    return this.get(withQuery("/users/cardio-load/date", { ...range }), CardioLoadListSchema);
+  }
+
+  getCardioLoadHistory(periodType: "days" | "months", count: number): Promise<CardioLoad[]> {
+    return this.get(`/users/cardio-load/period/${periodType}/${count}`, CardioLoadListSchema);
+  }
+
+  // SleepWise ----------------------------------------------------------------
+
+  getSleepWiseAlertness(range: DateRange = {}): Promise<Alertness[]> {
+    const endpoint =
+      range.from || range.to
+        ? withQuery("/users/sleepwise/alertness/date", { ...range })
+        : "/users/sleepwise/alertness";
+    return this.get(endpoint, AlertnessListSchema);
+  }
+
+  getSleepWiseCircadianBedtime(range: DateRange = {}): Promise<CircadianBedtime[]> {
+    const endpoint =
+      range.from || range.to
+        ? withQuery("/users/sleepwise/circadian-bedtime/date", { ...range })
+        : "/users/sleepwise/circadian-bedtime";
+    return this.get(endpoint, CircadianBedtimeListSchema);
+  }
+
+  // Elixir biosensing --------------------------------------------------------
+
+  getBodyTemperature(range: DateRange = {}): Promise<BodyTemperaturePeriod[]> {
+    return this.get(withQuery("/users/biosensing/bodytemperature", { ...range }), BodyTemperatureListSchema);
+  }
+
+  getSkinTemperature(range: DateRange = {}): Promise<SkinTemperature[]> {
+    return this.get(withQuery("/users/biosensing/skintemperature", { ...range }), SkinTemperatureListSchema);
+  }
+
+  getSpo2(range: DateRange = {}): Promise<Spo2Test[]> {
+    return this.get(withQuery("/users/biosensing/spo2", { ...range }), Spo2TestListSchema);
+  }
+
+  // Transactions -------------------------------------------------------------
+
+  /**
+   * Open a transaction containing every item not yet committed.
+   * Throws PolarNoDataError (204) when there is nothing new.
+   */
+  async createTransaction(userId: number, type: TransactionType): Promise<number> {
+    const location = await this.get(`/users/${userId}/${type}-transactions`, TransactionLocationSchema, {
+      method: "POST",
+    });
+    return location["transaction-id"];
+  }
+
+  /**
+   * Item URLs of an open transaction. Throws PolarNoDataError when the
+   * transaction has expired or was already committed.
+   */
+  async listTransactionItems(userId: number, type: TransactionType, transactionId: number): Promise<string[]> {
+    const items = await this.get(`/users/${userId}/${type}-transactions/${transactionId}`, TransactionItemsSchema);
+    const urls = items[TRANSACTION_ITEM_KEYS[type]] as string[] | null | undefined;
+    return urls ?? [];
+  }
+
+  getTransactionExercise(url: string): Promise<TransactionExercise> {
+    return this.get(transactionEndpoint(url), TransactionExerciseSchema);
+  }
+
+  getTransactionActivity(url: string): Promise<ActivitySummary> {
+    return this.get(transactionEndpoint(url), ActivitySummarySchema);
+  }
+
+  getTransactionPhysicalInfo(url: string): Promise<PhysicalInformation> {
+    return this.get(transactionEndpoint(url), PhysicalInformationSchema);
+  }
+
+  /**
+   * Mark every item of the transaction as delivered
+   */
+  async commitTransaction(userId: number, type: TransactionType, transactionId: number): Promise<void> {
+    this.track("PUT", `/users/${userId}/${type}-transactions/${transactionId}`);
+    const response = await polarFetch(`/users/${userId}/${type}-transactions/${transactionId}`, this.accessToken, {
+      method: "PUT",
+    });
+    await response.body?.cancel();
+  }
+}
+
+/**
+ * Transaction items are returned as absolute URLs; polarFetch wants the path
+ */
+function transactionEndpoint(url: string): string {
+  return url.startsWith(POLAR_API_BASE) ? url.slice(POLAR_API_BASE.length) : new URL(url).pathname.replace(/^\/v3/, "");
+}
+
+export interface WebhookSettings {
+  url?: string;
+  events?: string[];
+}
+
+/**
+ * Client-level AccessLink calls for the webhook subscription. These use the
+ * client's Basic credentials rather than a user token, and there is at most
+ * one webhook per client.
+ */
+export class PolarWebhookClient {
+  private readonly authorization: string;
+
+  constructor(clientId: string, clientSecret: string) {
+    this.authorization = `Basic ${btoa(`${clientId}:${clientSecret}`)}`;
+  }
+
+  private async request(endpoint: string, options: RequestInit = {}): Promise<WebhookInfo | undefined> {
+    const result = await polarApiRequest(endpoint, "", {
+      ...options,
+      headers: { Authorization: this.authorization, "Content-Type": "application/json", ...options.headers },
+    });
+    const { data } = validate(endpoint, WebhookResponseSchema, result);
+    return Array.isArray(data) ? data[0] : data;
+  }
+
+  private async send(endpoint: string, method: string): Promise<void> {
+    const response = await polarFetch(endpoint, "", { method, headers: { Authorization: this.authorization } });
+    await response.body?.cancel();
+  }
+
+  /**
+   * The client's webhook; throws PolarNoDataError when none exists
+   */
+  async get(): Promise<WebhookInfo> {
+    const webhook = await this.request("/webhooks");
+    if (!webhook) throw new PolarNoDataError("/webhooks", 200);
+    return webhook;
+  }
+
+  /**
+   * Create the webhook. The response is the only place the signature secret appears.
+   */
+  async create(url: string, events: string[]): Promise<WebhookInfo> {
+    const webhook = await this.request("/webhooks", { method: "POST", body: JSON.stringify({ url, events }) });
+    if (!webhook) throw new PolarNoDataError("/webhooks", 201);
+    return webhook;
+  }
+
+  async update(id: string, settings: WebhookSettings): Promise<WebhookInfo> {
+    const webhook = await this.request(`/webhooks/${id}`, { method: "PATCH", body: JSON.stringify(settings) });
+    if (!webhook) throw new PolarNoDataError(`/webhooks/${id}`, 200);
+    return webhook;
+  }
+
+  delete(id: string): Promise<void> {
+    return this.send(`/webhooks/${id}`, "DELETE");
+  }
+
+  /** Resume deliveries, e.g. after Polar deactivated the webhook for failing */
+  activate(): Promise<void> {
+    return this.send("/webhooks/activate", "POST");
+  }
+
+  deactivate(): Promise<void> {
+    return this.send("/webhooks/deactivate", "POST");
+  }
+}
@@ -0,0 +1,435 @@
+/**
+ * Polar AccessLink v3 Response Models
+ * Zod schemas for the endpoints wrapped by PolarClient
+ *
+ * Objects are loose so new fields added by Polar pass through untouched;
+ * only the fields our tools and analysis rely on are declared.
+ */
+
+import { z } from "zod";
+
+const optionalNumber = z.number().nullish();
+const optionalString = z.string().nullish();
+
+/** ISO-8601 date, e.g. 2024-12-01 */
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected YYYY-MM-DD date");
+
+// ---------------------------------------------------------------------------
+// User
+// ---------------------------------------------------------------------------
+
+export const PolarUserSchema = z.looseObject({
+  "polar-user-id": z.number(),
+  "member-id": optionalString,
+  "registration-date": optionalString,
+  "first-name": optionalString,
+  "last-name": optionalString,
+  birthdate: optionalString,
+  gender: optionalString,
+  weight: optionalNumber,
+  height: optionalNumber,
+  "extra-info": z
+    .array(z.looseObject({ value: optionalString, index: optionalNumber, name: optionalString }))
+    .nullish(),
+});
+export type PolarUser = z.infer<typeof PolarUserSchema>;
+
+export const PhysicalInformationSchema = z.looseObject({
+  id: optionalNumber,
+  "transaction-id": optionalNumber,
+  created: optionalString,
+  "polar-user": optionalString,
+  weight: optionalNumber,
+  height: optionalNumber,
+  "maximum-heart-rate": optionalNumber,
+  "resting-heart-rate": optionalNumber,
+  "aerobic-threshold": optionalNumber,
+  "anaerobic-threshold": optionalNumber,
+  "vo2-max": optionalNumber,
+  "weight-source": optionalString,
+});
+export type PhysicalInformation = z.infer<typeof PhysicalInformationSchema>;
+
+// ---------------------------------------------------------------------------
+// Exercises
+// ---------------------------------------------------------------------------
+
+export const ExerciseSampleSchema = z.looseObject({
+  "recording-rate": optionalNumber,
+  "sample-type": z.string(),
+  data: optionalString,
+});
+export type ExerciseSample = z.infer<typeof ExerciseSampleSchema>;
+
+export const HeartRateZoneSchema = z.looseObject({
+  index: z.number(),
+  "lower-limit": optionalNumber,
+  "upper-limit": optionalNumber,
+  "in-zone": optionalString,
+});
+export type HeartRateZone = z.infer<typeof HeartRateZoneSchema>;
+
+export const ExerciseSchema = z.looseObject({
+  id: z.string(),
+  upload_time: optionalString,
+  polar_user: optionalString,
+  device: optionalString,
+  device_id: optionalString,
+  start_time: z.string(),
+  start_time_utc_offset: optionalNumber,
+  /** ISO-8601 duration, e.g. PT1H2M3S */
+  duration: optionalString,
+  calories: optionalNumber,
+  distance: optionalNumber,
+  heart_rate: z.looseObject({ average: optionalNumber, maximum: optionalNumber }).nullish(),
+  training_load: optionalNumber,
+  sport: optionalString,
+  has_route: z.boolean().nullish(),
+  detailed_sport_info: optionalString,
+  fat_percentage: optionalNumber,
+  carbohydrate_percentage: optionalNumber,
+  protein_percentage: optionalNumber,
+  running_index: optionalNumber,
+  training_load_pro: z
+    .looseObject({
+      date: optionalString,
+      "cardio-load": optionalNumber,
+      "muscle-load": optionalNumber,
+      "perceived-load": optionalNumber,
+      "cardio-load-interpretation": optionalString,
+      "muscle-load-interpretation": optionalString,
+      "perceived-load-interpretation": optionalString,
+      "user-rpe": optionalString,
+    })
+    .nullish(),
+  samples: z.array(ExerciseSampleSchema).nullish(),
+  heart_rate_zones: z.array(HeartRateZoneSchema).nullish(),
+});
+export type Exercise = z.infer<typeof ExerciseSchema>;
+
+export const ExerciseListSchema = z.array(ExerciseSchema);
+
+// ---------------------------------------------------------------------------
+// Sleep
+// ---------------------------------------------------------------------------
+
+export const SleepNightSchema = z.looseObject({
+  polar_user: optionalString,
+  date: isoDate,
+  sleep_start_time: optionalString,
+  sleep_end_time: optionalString,
+  device_id: optionalString,
+  continuity: optionalNumber,
+  continuity_class: optionalNumber,
+  light_sleep: optionalNumber,
+  deep_sleep: optionalNumber,
+  rem_sleep: optionalNumber,
+  unrecognized_sleep_stage: optionalNumber,
+  sleep_score: optionalNumber,
+  total_interruption_duration: optionalNumber,
+  sleep_charge: optionalNumber,
+  sleep_goal: optionalNumber,
+  sleep_rating: optionalNumber,
+  short_interruption_duration: optionalNumber,
+  long_interruption_duration: optionalNumber,
+  sleep_cycles: optionalNumber,
+  group_duration_score: optionalNumber,
+  group_solidity_score: optionalNumber,
+  group_regeneration_score: optionalNumber,
+  hypnogram: z.record(z.string(), z.number()).nullish(),
+  heart_rate_samples: z.record(z.string(), z.number()).nullish(),
+});
+export type SleepNight = z.infer<typeof SleepNightSchema>;
+
+export const SleepListSchema = z.looseObject({
+  nights: z.array(SleepNightSchema),
+});
+
+// ---------------------------------------------------------------------------
+// Nightly Recharge
+// ---------------------------------------------------------------------------
+
+export const NightlyRechargeSchema = z.looseObject({
+  polar_user: optionalString,
+  date: isoDate,
+  heart_rate_avg: optionalNumber,
+  beat_to_beat_avg: optionalNumber,
+  heart_rate_variability_avg: optionalNumber,
+  breathing_rate_avg: optionalNumber,
+  nightly_recharge_status: optionalNumber,
+  ans_charge: optionalNumber,
+  ans_charge_status: optionalNumber,
+  hrv_samples: z.record(z.string(), z.number()).nullish(),
+  breathing_samples: z.record(z.string(), z.number()).nullish(),
+});
+export type NightlyRecharge = z.infer<typeof NightlyRechargeSchema>;
+
+export const NightlyRechargeListSchema = z.looseObject({
+  recharges: z.array(NightlyRechargeSchema),
+});
+
+// ---------------------------------------------------------------------------
+// Daily activity
+// ---------------------------------------------------------------------------
+
+export const DailyActivitySchema = z.looseObject({
+  start_time: optionalString,
+  end_time: optionalString,
+  active_duration: optionalString,
+  inactive_duration: optionalString,
+  daily_activity: optionalNumber,
+  calories: optionalNumber,
+  active_calories: optionalNumber,
+  steps: optionalNumber,
+  inactivity_alert_count: optionalNumber,
+  distance_from_steps: optionalNumber,
+});
+export type DailyActivity = z.infer<typeof DailyActivitySchema>;
+
+export const DailyActivityListSchema = z.array(DailyActivitySchema);
+
+export const ActivitySamplesSchema = z.looseObject({
+  date: isoDate,
+  steps: z
+    .looseObject({
+      interval_ms: optionalNumber,
+      total_steps: optionalNumber,
+      samples: z.array(z.looseObject({ steps: optionalNumber, timestamp: optionalString })).nullish(),
+    })
+    .nullish(),
+  activity_zones: z
+    .looseObject({
+      samples: z.array(z.looseObject({ timestamp: optionalString, zone: optionalString })).nullish(),
+    })
+    .nullish(),
+});
+export type ActivitySamples = z.infer<typeof ActivitySamplesSchema>;
+
+export const ActivitySamplesListSchema = z.array(ActivitySamplesSchema);
+
+// ---------------------------------------------------------------------------
+// Continuous heart rate
+// ---------------------------------------------------------------------------
+
+export const ContinuousHeartRateSchema = z.looseObject({
+  polar_user: optionalString,
+  date: isoDate,
+  heart_rate_samples: z.array(
+    z.looseObject({ heart_rate: z.number(), sample_time: z.string() })
+  ),
+});
+export type ContinuousHeartRate = z.infer<typeof ContinuousHeartRateSchema>;
+
+export const ContinuousHeartRateListSchema = z.looseObject({
+  heart_rates: z.array(ContinuousHeartRateSchema),
+});
+
+// ---------------------------------------------------------------------------
+// Cardio load
+// ---------------------------------------------------------------------------
+
+export const CardioLoadSchema = z.looseObject({
+  date: isoDate,
+  cardio_load_status: optionalString,
+  cardio_load: optionalNumber,
+  strain: optionalNumber,
+  tolerance: optionalNumber,
+  cardio_load_ratio: optionalNumber,
+  cardio_load_level: z
+    .looseObject({
+      very_low: optionalNumber,
+      low: optionalNumber,
+      medium: optionalNumber,
+      high: optionalNumber,
+      very_high: optionalNumber,
+    })
+    .nullish(),
+});
+export type CardioLoad = z.infer<typeof CardioLoadSchema>;
+
+export const CardioLoadListSchema = z.array(CardioLoadSchema);
+
+// ---------------------------------------------------------------------------
+// SleepWise
+// ---------------------------------------------------------------------------
+
+export const AlertnessSchema = z.looseObject({
+  grade: optionalNumber,
+  grade_validity_seconds: optionalNumber,
+  grade_type: optionalString,
+  grade_classification: optionalString,
+  validity: optionalString,
+  sleep_inertia: optionalString,
+  sleep_type: optionalString,
+  result_type: optionalString,
+  period_start_time: z.string(),
+  period_end_time: optionalString,
+  sleep_period_start_time: optionalString,
+  sleep_period_end_time: optionalString,
+  sleep_timezone_offset_minutes: optionalNumber,
+  hourly_data: z
+    .array(
+      z.looseObject({
+        validity: optionalString,
+        alertness_level: optionalString,
+        start_time: optionalString,
+        end_time: optionalString,
+      })
+    )
+    .nullish(),
+});
+export type Alertness = z.infer<typeof AlertnessSchema>;
+
+export const AlertnessListSchema = z.array(AlertnessSchema);
+
+export const CircadianBedtimeSchema = z.looseObject({
+  validity: optionalString,
+  quality: optionalString,
+  result_type: optionalString,
+  period_start_time: z.string(),
+  period_end_time: optionalString,
+  preferred_sleep_period_start_time: optionalString,
+  preferred_sleep_period_end_time: optionalString,
+  sleep_gate_start_time: optionalString,
+  sleep_gate_end_time: optionalString,
+  sleep_timezone_offset_minutes: optionalNumber,
+});
+export type CircadianBedtime = z.infer<typeof CircadianBedtimeSchema>;
+
+export const CircadianBedtimeListSchema = z.array(CircadianBedtimeSchema);
+
+// ---------------------------------------------------------------------------
+// Elixir biosensing
+// ---------------------------------------------------------------------------
+
+export const BodyTemperaturePeriodSchema = z.looseObject({
+  source_device_id: optionalString,
+  measurement_type: optionalString,
+  sensor_location: optionalString,
+  start_time: z.string(),
+  end_time: optionalString,
+  modified_time: optionalString,
+  samples: z
+    .array(
+      z.looseObject({
+        temperature_celsius: z.number(),
+        recording_time_delta_milliseconds: optionalNumber,
+      })
+    )
+    .nullish(),
+});
+export type BodyTemperaturePeriod = z.infer<typeof BodyTemperaturePeriodSchema>;
+
+export const BodyTemperatureListSchema = z.array(BodyTemperaturePeriodSchema);
+
+export const SkinTemperatureSchema = z.looseObject({
+  source_device_id: optionalString,
+  sleep_date: isoDate,
+  sleep_time_skin_temperature_celsius: optionalNumber,
+  deviation_from_baseline_celsius: optionalNumber,
+});
+export type SkinTemperature = z.infer<typeof SkinTemperatureSchema>;
+
+export const SkinTemperatureListSchema = z.array(SkinTemperatureSchema);
+
+export const Spo2TestSchema = z.looseObject({
+  source_device_id: optionalString,
+  test_time: z.number().or(z.string()),
+  time_zone_offset: optionalNumber,
+  test_status: optionalString,
+  blood_oxygen_percent: optionalNumber,
+  spo2_class: optionalString,
+  spo2_value_deviation_from_baseline: optionalString,
+  spo2_quality_average_percent: optionalNumber,
+  average_heart_rate_bpm: optionalNumber,
+  heart_rate_variability_ms: optionalNumber,
+  spo2_hrv_deviation_from_baseline: optionalString,
+  altitude_meters: optionalNumber,
+});
+export type Spo2Test = z.infer<typeof Spo2TestSchema>;
+
+export const Spo2TestListSchema = z.array(Spo2TestSchema);
+
+// ---------------------------------------------------------------------------
+// Transactions (pull notifications)
+// ---------------------------------------------------------------------------
+
+export const TransactionLocationSchema = z.looseObject({
+  "transaction-id": z.number(),
+  "resource-uri": optionalString,
+});
+export type TransactionLocation = z.infer<typeof TransactionLocationSchema>;
+
+/** Item URLs of an open transaction; the list key depends on the data type */
+export const TransactionItemsSchema = z.looseObject({
+  exercises: z.array(z.string()).nullish(),
+  "activity-log": z.array(z.string()).nullish(),
+  "physical-informations": z.array(z.string()).nullish(),
+});
+export type TransactionItems = z.infer<typeof TransactionItemsSchema>;
+
+/** Exercise summary as delivered through exercise-transactions (kebab-case, numeric id) */
+export const TransactionExerciseSchema = z.looseObject({
+  id: z.number(),
+  "upload-time": optionalString,
+  "polar-user": optionalString,
+  "transaction-id": optionalNumber,
+  device: optionalString,
+  "device-id": optionalString,
+  "start-time": z.string(),
+  "start-time-utc-offset": optionalNumber,
+  duration: optionalString,
+  calories: optionalNumber,
+  distance: optionalNumber,
+  "heart-rate": z.looseObject({ average: optionalNumber, maximum: optionalNumber }).nullish(),
+  "training-load": optionalNumber,
+  sport: optionalString,
+  "has-route": z.boolean().nullish(),
+  "detailed-sport-info": optionalString,
+  "running-index": optionalNumber,
+});
+export type TransactionExercise = z.infer<typeof TransactionExerciseSchema>;
+
+/** Daily activity summary as delivered through activity-transactions */
+export const ActivitySummarySchema = z.looseObject({
+  id: optionalNumber,
+  "polar-user": optionalString,
+  "transaction-id": optionalNumber,
+  date: isoDate,
+  created: optionalString,
+  calories: optionalNumber,
+  "active-calories": optionalNumber,
+  duration: optionalString,
+  "active-steps": optionalNumber,
+});
+export type ActivitySummary = z.infer<typeof ActivitySummarySchema>;
+
+// ---------------------------------------------------------------------------
+// Webhooks
+// ---------------------------------------------------------------------------
+
+/** Payload POSTed to the webhook URL; PING events carry only event and timestamp */
+export const WebhookEventSchema = z.looseObject({
+  event: z.string(),
+  user_id: optionalNumber,
+  entity_id: optionalString,
+  date: optionalString,
+  timestamp: optionalString,
+  url: optionalString,
+});
+export type WebhookEvent = z.infer<typeof WebhookEventSchema>;
+
+export const WebhookInfoSchema = z.looseObject({
+  id: z.string(),
+  events: z.array(z.string()),
+  url: z.string(),
+  active: z.boolean().nullish(),
+  /** Only returned when the webhook is created */
+  signature_secret_key: optionalString,
+});
+export type WebhookInfo = z.infer<typeof WebhookInfoSchema>;
+
+/** Webhook endpoints wrap results in `data`; listing returns an array of at most one */
+export const WebhookResponseSchema = z.looseObject({
+  data: z.union([WebhookInfoSchema, z.array(WebhookInfoSchema)]),
+});
@@ -0,0 +1,254 @@
+/**
+ * Profiles
+ * The stdio server's credentials file, ~/.polar-mcp-server/profiles.json (or
+ * POLAR_PROFILES_FILE), readable by the owner only. It holds one or more
+ * named Polar accounts — e.g. a coach's athletes or a second account — each
+ * with its own token, optionally encrypted with a passphrase, and history
+ * directory. `npm run auth` writes it after the OAuth flow.
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from "node:crypto";
+import { chmod, mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { dirname, join, resolve } from "node:path";
+import { z } from "zod";
+import { openHistoryStore } from "./history-store.js";
+import type { JsonlHistoryStore } from "./history-store.js";
+import type { PolarProfiles, PolarToolContext, ProfileInfo } from "./tools.js";
+
+const EncryptedTokenSchema = z.object({
+  salt: z.string(),
+  iv: z.string(),
+  tag: z.string(),
+  data: z.string(),
+});
+
+const ProfileSchema = z
+  .object({
+    accessToken: z.string().min(1).optional(),
+    /** The access token, AES-256-GCM encrypted with a key derived from POLAR_CREDENTIALS_PASSPHRASE */
+    encryptedToken: EncryptedTokenSchema.optional(),
+    userId: z.number().optional(),
+    /** member-id the account was registered with at AccessLink */
+    memberId: z.string().optional(),
+  })
+  .refine((profile) => profile.accessToken !== undefined || profile.encryptedToken !== undefined, {
+    message: "Profile needs an accessToken or encryptedToken",
+  });
+
+const ProfilesFileSchema = z.object({
+  /** Profile used when a tool call names none */
+  default: z.string().optional(),
+  profiles: z.record(z.string(), ProfileSchema),
+});
+
+export type Profile = z.infer<typeof ProfileSchema>;
+export type ProfilesFile = z.infer<typeof ProfilesFileSchema>;
+export type EncryptedToken = z.infer<typeof EncryptedTokenSchema>;
+
+/** The profile `npm run auth` writes without --profile; its history stays in the history directory itself */
+export const DEFAULT_PROFILE = "default";
+
+function deriveKey(passphrase: string, salt: Buffer): Buffer {
+  return scryptSync(passphrase, salt, 32);
+}
+
+export function encryptToken(token: string, passphrase: string): EncryptedToken {
+  const salt = randomBytes(16);
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", deriveKey(passphrase, salt), iv);
+  const data = Buffer.concat([cipher.update(token, "utf8"), cipher.final()]);
+  return {
+    salt: salt.toString("base64"),
+    iv: iv.toString("base64"),
+    tag: cipher.getAuthTag().toString("base64"),
+    data: data.toString("base64"),
+  };
+}
+
+export function decryptToken(encrypted: EncryptedToken, passphrase: string): string {
+  const decipher = createDecipheriv(
+    "aes-256-gcm",
+    deriveKey(passphrase, Buffer.from(encrypted.salt, "base64")),
+    Buffer.from(encrypted.iv, "base64")
+  );
+  decipher.setAuthTag(Buffer.from(encrypted.tag, "base64"));
+  try {
+    return Buffer.concat([decipher.update(Buffer.from(encrypted.data, "base64")), decipher.final()]).toString("utf8");
+  } catch {
+    throw new Error("Could not decrypt the access token: wrong passphrase or corrupted credentials file");
+  }
+}
+
+/**
+ * The profile's access token, decrypting it when it is stored encrypted
+ */
+export function profileToken(name: string, profile: Profile, passphrase?: string): string {
+  if (profile.accessToken) return profile.accessToken;
+  if (!passphrase) {
+    throw new Error(`Profile "${name}" is encrypted; set POLAR_CREDENTIALS_PASSPHRASE to use it`);
+  }
+  return decryptToken(profile.encryptedToken!, passphrase);
+}
+
+/** Profile names double as history directory names */
+const PROFILE_NAME = /^[A-Za-z0-9_-]+$/;
+
+export function assertProfileName(name: string): void {
+  if (!PROFILE_NAME.test(name)) {
+    throw new Error(`Invalid profile name "${name}": use letters, digits, "-" and "_"`);
+  }
+}
+
+/**
+ * History store of a profile: `<POLAR_HISTORY_DIR>/<profile>`, except the
+ * default profile, which keeps the history directory it had before profiles
+ */
+export function openProfileHistory(env: NodeJS.ProcessEnv, name: string): JsonlHistoryStore | undefined {
+  return openHistoryStore(env, name === DEFAULT_PROFILE ? undefined : name);
+}
+
+export function profilesPath(env: NodeJS.ProcessEnv = process.env): string {
+  return resolve(env.POLAR_PROFILES_FILE ?? join(homedir(), ".polar-mcp-server", "profiles.json"));
+}
+
+/**
+ * The profiles file, or undefined when there is none
+ */
+export async function readProfiles(path: string): Promise<ProfilesFile | undefined> {
+  let text: string;
+  try {
+    text = await readFile(path, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+    throw error;
+  }
+
+  const parsed = ProfilesFileSchema.safeParse(JSON.parse(text));
+  if (!parsed.success) {
+    throw new Error(`Invalid profiles file ${path}:\n${z.prettifyError(parsed.error)}`);
+  }
+  return parsed.data;
+}
+
+/**
+ * Write the file readable by the owner only, since it holds access tokens
+ */
+async function writeProfiles(path: string, file: ProfilesFile): Promise<void> {
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(`${path}.tmp`, `${JSON.stringify(file, null, 2)}\n`, { mode: 0o600 });
+  await rename(`${path}.tmp`, path);
+  await chmod(path, 0o600);
+}
+
+/**
+ * Add or replace a profile; the first profile becomes the default
+ */
+export async function saveProfile(path: string, name: string, profile: Profile): Promise<ProfilesFile> {
+  assertProfileName(name);
+  const file = (await readProfiles(path)) ?? { profiles: {} };
+  file.profiles[name] = profile;
+  file.default ??= name;
+  await writeProfiles(path, file);
+  return file;
+}
+
+export async function removeProfile(path: string, name: string): Promise<void> {
+  const file = await readProfiles(path);
+  if (!file?.profiles[name]) return;
+  delete file.profiles[name];
+  if (file.default === name) {
+    file.default = Object.keys(file.profiles)[0];
+  }
+  await writeProfiles(path, file);
+}
+
+/**
+ * Profiles of the running stdio server. The active profile starts as
+ * POLAR_PROFILE or the file's default and changes with switch_profile;
+ * each profile has its own history (see openProfileHistory).
+ */
+export class LocalProfiles implements PolarProfiles {
+  private active: string;
+  private readonly histories = new Map<string, JsonlHistoryStore | undefined>();
+  private readonly tokens = new Map<string, string>();
+
+  constructor(
+    private readonly path: string,
+    private readonly file: ProfilesFile,
+    private readonly env: NodeJS.ProcessEnv = process.env
+  ) {
+    const names = Object.keys(file.profiles);
+    const initial = env.POLAR_PROFILE ?? file.default ?? names[0];
+    if (!file.profiles[initial]) {
+      throw new Error(`Profile "${initial}" is not in ${path}. Available: ${names.join(", ")}`);
+    }
+    this.active = initial;
+  }
+
+  list(): ProfileInfo[] {
+    return Object.entries(this.file.profiles).map(([name, profile]) => ({
+      name,
+      userId: profile.userId,
+      active: name === this.active,
+      default: name === this.file.default,
+    }));
+  }
+
+  switchTo(name: string): ProfileInfo {
+    this.profile(name);
+    this.active = name;
+    return this.list().find((info) => info.name === name)!;
+  }
+
+  resolve(name?: string): Partial<PolarToolContext> {
+    const profileName = name ?? this.active;
+    this.profile(profileName);
+    const history = this.history(profileName);
+    return {
+      getAccessToken: () => this.token(profileName),
+      reauthorizeHint: `Run \`npm run auth -- --reauth${profileName === DEFAULT_PROFILE ? "" : ` --profile ${profileName}`}\` to authorize again.`,
+      history,
+      syncState: history,
+      eraseUserData: async () => {
+        const removed = (await history?.clear()) ?? [];
+        await removeProfile(this.path, profileName);
+        delete this.file.profiles[profileName];
+        const remaining = Object.keys(this.file.profiles);
+        if (this.file.default === profileName) {
+          this.file.default = remaining[0];
+        }
+        if (this.active === profileName && remaining.length > 0) {
+          this.active = this.file.default ?? remaining[0];
+        }
+        return [...removed.map((path) => `Deleted ${path}`), `Removed profile "${profileName}" from ${this.path}`];
+      },
+    };
+  }
+
+  private profile(name: string): Profile {
+    const profile = this.file.profiles[name];
+    if (!profile) {
+      const names = Object.keys(this.file.profiles).join(", ");
+      throw new Error(`Unknown profile "${name}". Available profiles: ${names || "none"}`);
+    }
+    return profile;
+  }
+
+  /** Decrypted lazily, so a missing passphrase fails the tool call rather than the server start */
+  private token(name: string): string {
+    let token = this.tokens.get(name);
+    if (!token) {
+      token = profileToken(name, this.profile(name), this.env.POLAR_CREDENTIALS_PASSPHRASE);
+      this.tokens.set(name, token);
+    }
+    return token;
+  }
+
+  private history(name: string): JsonlHistoryStore | undefined {
+    if (!this.histories.has(name)) {
+      this.histories.set(name, openProfileHistory(this.env, name));
+    }
+    return this.histories.get(name);
+  }
+}
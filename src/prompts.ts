@@ -0,0 +1,205 @@
+/**
+ * Polar MCP Prompt Registry
+ * Curated coaching workflows: each prompt spells out which tools to call with
+ * which arguments and what to look for, so the model does not have to work out
+ * the sequence for common multi-tool questions every time. Prompts only name
+ * tools, they fetch nothing themselves.
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { GetPromptResult } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { findTool, isToolAvailable } from "./tools.js";
+import type { PolarToolContext } from "./tools.js";
+
+export interface PolarPromptDefinition<Shape extends z.ZodRawShape = z.ZodRawShape> {
+  name: string;
+  title: string;
+  description: string;
+  /** Prompt arguments; MCP passes them as strings */
+  schema: Shape;
+  /** Tools the instructions call; the prompt is only offered when all of them are available */
+  tools: string[];
+  /** The instructions for the given arguments, relative to today's date (YYYY-MM-DD, UTC) */
+  text(args: z.infer<z.ZodObject<Shape>>, today: string): string;
+}
+
+/**
+ * Identity helper so each definition infers its own argument types
+ */
+export function definePrompt<Shape extends z.ZodRawShape>(
+  definition: PolarPromptDefinition<Shape>
+): PolarPromptDefinition<Shape> {
+  return definition;
+}
+
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use the YYYY-MM-DD format");
+
+const profileSchema = z
+  .string()
+  .optional()
+  .describe("Profile (Polar account) to review, see list_profiles. Defaults to the active profile.");
+
+/** The date `days` after `date` (negative for before), both YYYY-MM-DD */
+function shiftDate(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+}
+
+/** A tool call as the instructions spell it, e.g. `get_sleep` with {"date":"2025-01-31"} */
+function call(tool: string, args: Record<string, unknown> = {}): string {
+  return Object.keys(args).length > 0 ? `\`${tool}\` with ${JSON.stringify(args)}` : `\`${tool}\``;
+}
+
+function steps(intro: string, calls: string[], analysis: string): string {
+  return [intro, "", "Fetch:", ...calls.map((line, i) => `${i + 1}. ${line}`), "", analysis].join("\n");
+}
+
+export const POLAR_PROMPTS: PolarPromptDefinition[] = [
+  definePrompt({
+    name: "weekly_training_review",
+    title: "Weekly training review",
+    description:
+      "Review a week of training: volume and intensity by sport, cardio load status, and how sleep and recovery kept up, with suggestions for next week.",
+    schema: {
+      week_ending: dateSchema.optional().describe("Last day of the week (YYYY-MM-DD). Defaults to today."),
+    },
+    tools: ["get_exercises_range", "get_exercise", "get_cardio_load_range", "get_nightly_recharge_range", "get_sleep_range"],
+    text: ({ week_ending }, today) => {
+      const to = week_ending ?? today;
+      const from = shiftDate(to, -6);
+      return steps(
+        `Review my training week from ${from} to ${to}.`,
+        [
+          `${call("get_exercises_range", { from, to })} for the sessions of the week.`,
+          `${call("get_exercise", { exerciseId: "<id>", zones: true })} for the two or three hardest sessions, to see time in heart rate zones.`,
+          `${call("get_cardio_load_range", { from: shiftDate(to, -27), to })}, four weeks so the week can be compared with the weeks before.`,
+          `${call("get_nightly_recharge_range", { from, to })} and ${call("get_sleep_range", { from, to })} for recovery.`,
+        ],
+        "Summarize total time, distance and sessions per sport, how hard the week was (zones, training load) and the cardio load status and trend. Point out nights with low ANS charge or poor sleep after hard days. Finish with two or three concrete suggestions for next week. Say so when a data type returned nothing instead of guessing."
+      );
+    },
+  }),
+
+  definePrompt({
+    name: "morning_readiness_check",
+    title: "Morning readiness check",
+    description:
+      "Decide how hard to train today from last night's Nightly Recharge and sleep against the previous week, and the current cardio load.",
+    schema: {
+      date: dateSchema.optional().describe("Morning to check (YYYY-MM-DD). Defaults to today."),
+    },
+    tools: ["get_nightly_recharge", "get_sleep", "get_nightly_recharge_range", "get_cardio_load"],
+    text: ({ date }, today) => {
+      const day = date ?? today;
+      return steps(
+        `How ready am I to train on ${day}?`,
+        [
+          `${call("get_nightly_recharge", { date: day })} and ${call("get_sleep", { date: day })} for last night.`,
+          `${call("get_nightly_recharge_range", { from: shiftDate(day, -7), to: shiftDate(day, -1) })} as my baseline for HRV, ANS charge and breathing rate.`,
+          `${call("get_cardio_load", { date: day })} for the current training load status.`,
+        ],
+        "Compare last night with the baseline: ANS charge, HRV, breathing rate, sleep score and duration. Then give one clear recommendation (hard session, easy session or rest) and the two or three numbers that drove it. If last night has no data yet, say so; the watch may not have synced."
+      );
+    },
+  }),
+
+  definePrompt({
+    name: "sleep_troubleshooting",
+    title: "Sleep troubleshooting",
+    description:
+      "Look for why sleep has been poor: patterns across sleep stages, interruptions, recovery, bedtime against the circadian recommendation, late or hard training and daytime activity.",
+    schema: {
+      from: dateSchema.optional().describe("First night (YYYY-MM-DD). Defaults to 14 days ago."),
+      to: dateSchema.optional().describe("Last night (YYYY-MM-DD). Defaults to today."),
+    },
+    tools: [
+      "get_sleep_range",
+      "get_nightly_recharge_range",
+      "get_sleepwise_circadian_bedtime",
+      "get_exercises_range",
+      "get_daily_activity_range",
+    ],
+    text: ({ from, to }, today) => {
+      const last = to ?? today;
+      const first = from ?? shiftDate(last, -13);
+      return steps(
+        `Help me figure out why my sleep has been poor between ${first} and ${last}.`,
+        [
+          `${call("get_sleep_range", { from: first, to: last })} for sleep stages, scores, duration and interruptions.`,
+          `${call("get_nightly_recharge_range", { from: first, to: last })} for overnight HRV and ANS charge.`,
+          `${call("get_sleepwise_circadian_bedtime", { from: first, to: last })} for the recommended sleep window.`,
+          `${call("get_exercises_range", { from: first, to: last })} and ${call("get_daily_activity_range", { from: first, to: last })} for training and daytime activity.`,
+        ],
+        "Separate the good nights from the bad ones and look for what differs: bedtime against the recommended window, late or hard sessions, very active or inactive days, long interruptions, low deep or REM sleep. Only name a cause the data supports, say how sure you are, and suggest one or two changes to try."
+      );
+    },
+  }),
+
+  definePrompt({
+    name: "race_week_taper_check",
+    title: "Race-week taper check",
+    description:
+      "Check a taper before a race: is cardio load coming down while intensity is kept, and are sleep and recovery improving.",
+    schema: {
+      race_date: dateSchema.describe("Race day (YYYY-MM-DD). Required."),
+      race: z.string().optional().describe("The race, e.g. \"half marathon\". Optional."),
+    },
+    tools: ["get_cardio_load_range", "get_exercises_range", "get_nightly_recharge_range", "get_sleep_range"],
+    text: ({ race_date, race }, today) => {
+      // Nothing after today exists yet
+      const to = race_date < today ? race_date : today;
+      const week = shiftDate(to, -6);
+      return steps(
+        `My ${race ?? "race"} is on ${race_date}. Check whether my taper is on track.`,
+        [
+          `${call("get_cardio_load_range", { from: shiftDate(to, -41), to })}, six weeks so acute load can be compared with the build-up.`,
+          `${call("get_exercises_range", { from: shiftDate(to, -13), to })} for the last two weeks of sessions.`,
+          `${call("get_nightly_recharge_range", { from: week, to })} and ${call("get_sleep_range", { from: week, to })} for recovery this week.`,
+        ],
+        "Acute load should be clearly below chronic load and falling, with a few short sessions at race intensity and no long or new hard ones. ANS charge, HRV and sleep should hold or improve. Say whether the taper looks on track, what is off if not, and what to do in the days left."
+      );
+    },
+  }),
+
+  definePrompt({
+    name: "compare_workouts",
+    title: "Compare two workouts",
+    description:
+      "Compare two exercises side by side: duration, distance, pace or speed, heart rate and zones, laps, power and running dynamics, and what changed between them.",
+    schema: {
+      first_exercise_id: z.string().describe("Exercise ID of the first workout, see get_exercises. Required."),
+      second_exercise_id: z.string().describe("Exercise ID of the second workout. Required."),
+    },
+    tools: ["get_exercise", "get_exercise_fit_analysis"],
+    text: ({ first_exercise_id, second_exercise_id }) =>
+      steps(
+        `Compare my workouts ${first_exercise_id} and ${second_exercise_id}.`,
+        [first_exercise_id, second_exercise_id].map(
+          (exerciseId) =>
+            `${call("get_exercise", { exerciseId, zones: true })} and ${call("get_exercise_fit_analysis", { exerciseId })}.`
+        ),
+        "Put the two side by side in a table: sport, date, duration, distance, average pace or speed, average and maximum heart rate, time in each zone, training load, and power, cadence or running dynamics where both have them. Compare laps when both have comparable ones. Then explain what changed, e.g. the same pace at a lower heart rate, and what it suggests about fitness or fatigue. If the workouts are of different sports, say so and compare only what is comparable."
+      ),
+  }),
+];
+
+/**
+ * Register the prompts whose tools are all available in this deployment
+ */
+export function registerPolarPrompts(server: McpServer, context: PolarToolContext): void {
+  for (const prompt of POLAR_PROMPTS) {
+    if (!prompt.tools.every((name) => isToolAvailable(findTool(name), context))) continue;
+    const argsSchema = { ...prompt.schema, ...(context.profiles ? { profile: profileSchema } : {}) };
+    server.registerPrompt(
+      prompt.name,
+      { title: prompt.title, description: prompt.description, argsSchema },
+      (args: Record<string, string | undefined>): GetPromptResult => {
+        let text = prompt.text(args, new Date().toISOString().slice(0, 10));
+        if (args.profile) {
+          text += `\n\nUse profile "${args.profile}": pass \`profile: "${args.profile}"\` to every tool call.`;
+        }
+        return { messages: [{ role: "user", content: { type: "text", text } }] };
+      }
+    );
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * Request Quotas
+ * All users of the remote server share one AccessLink client, whose rate
+ * limit grows with the number of registered users. Budgets of AccessLink
+ * requests per Polar user, and per MCP client of that user, keep one runaway
+ * agent from using it up for everyone. The Worker counts requests in the
+ * user's Durable Object (see user-data.ts) in fixed windows, against limits
+ * set as wrangler.toml vars.
+ */
+
+/** `user` counts every request for the user, `client` each of their MCP clients separately */
+export type QuotaScope = "user" | "client";
+
+export interface QuotaLimit {
+  scope: QuotaScope;
+  windowSeconds: number;
+  /** AccessLink requests allowed per window */
+  requests: number;
+}
+
+export interface QuotaExceeded {
+  limit: QuotaLimit;
+  /** ISO timestamp the window ends and the budget is available again */
+  retryAt: string;
+}
+
+/**
+ * Quota check for one session: its user and MCP client
+ */
+export interface QuotaGate {
+  /** The spent budget that blocks the next call, if any */
+  exceeded(): Promise<QuotaExceeded | undefined>;
+  /** Count the AccessLink requests a call made */
+  charge(requests: number): Promise<void>;
+}
+
+/** The vars that set the limits; an unset var means no limit */
+export interface QuotaVars {
+  QUOTA_USER_PER_15_MIN?: string;
+  QUOTA_USER_PER_DAY?: string;
+  QUOTA_CLIENT_PER_15_MIN?: string;
+  QUOTA_CLIENT_PER_DAY?: string;
+}
+
+/** The same windows AccessLink's own rate limit uses */
+const QUOTA_VARS: Array<[name: keyof QuotaVars, scope: QuotaScope, windowSeconds: number]> = [
+  ["QUOTA_USER_PER_15_MIN", "user", 15 * 60],
+  ["QUOTA_USER_PER_DAY", "user", 24 * 60 * 60],
+  ["QUOTA_CLIENT_PER_15_MIN", "client", 15 * 60],
+  ["QUOTA_CLIENT_PER_DAY", "client", 24 * 60 * 60],
+];
+
+export function quotaLimits(vars: QuotaVars): QuotaLimit[] {
+  const limits: QuotaLimit[] = [];
+  for (const [name, scope, windowSeconds] of QUOTA_VARS) {
+    const value = vars[name];
+    if (value === undefined || value === "") continue;
+    const requests = Number(value);
+    if (!Number.isInteger(requests) || requests <= 0) {
+      throw new Error(`${name} must be a positive whole number of requests, got "${value}"`);
+    }
+    limits.push({ scope, windowSeconds, requests });
+  }
+  return limits;
+}
+
+/** Start of the fixed window containing `now`, in epoch milliseconds */
+export function quotaWindowStart(limit: QuotaLimit, now: number): number {
+  const windowMs = limit.windowSeconds * 1000;
+  return Math.floor(now / windowMs) * windowMs;
+}
+
+/**
+ * The budget in words, e.g. "this MCP client may make 60 Polar requests per 15 minutes for this user"
+ */
+export function describeQuota(limit: QuotaLimit): string {
+  const who = limit.scope === "user" ? "all MCP clients together" : "this MCP client";
+  const window = limit.windowSeconds >= 24 * 60 * 60 ? "day" : `${limit.windowSeconds / 60} minutes`;
+  return `${who} may make ${limit.requests} Polar requests per ${window} for this user`;
+}
@@ -0,0 +1,267 @@
+/**
+ * Polar AccessLink Rate Limiting
+ * Client-side token bucket and retry/backoff helpers used by polarApiRequest
+ *
+ * AccessLink enforces a short-term (15 minute) and a long-term (24 hour) limit
+ * per client ID and reports usage in the RateLimit-Usage / RateLimit-Limit /
+ * RateLimit-Reset headers as "short, long" pairs.
+ */
+
+import { PolarRateLimitedError } from "./errors.js";
+
+export interface RateLimitStatus {
+  usage: [number, number];
+  limit: [number, number];
+  /** Seconds until each window resets */
+  reset: [number, number];
+}
+
+export interface RetryOptions {
+  maxRetries: number;
+  baseDelayMs: number;
+  /** Waits longer than this are not retried; the error is surfaced instead */
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 30_000,
+};
+
+/** Fraction of the short-term window after which the rest is spread evenly until reset */
+const SHORT_TERM_HEADROOM = 0.9;
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Token bucket shared by all requests made from this process / isolate
+ */
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill = Date.now();
+  private pausedUntil = 0;
+  /** While spreading: the gap between requests, until when, and when the next may go */
+  private spacing: { intervalMs: number; until: number } | null = null;
+  private nextSpacedAt = 0;
+
+  constructor(
+    private capacity: number,
+    private refillPerSecond: number
+  ) {
+    this.tokens = capacity;
+  }
+
+  /**
+   * Change the budget, e.g. for a client ID with many registered users
+   */
+  configure(capacity: number, refillPerSecond: number): void {
+    this.refill();
+    this.capacity = capacity;
+    this.refillPerSecond = refillPerSecond;
+    this.tokens = Math.min(this.tokens, capacity);
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    const elapsed = (now - this.lastRefill) / 1000;
+    this.tokens = Math.min(this.capacity, this.tokens + elapsed * this.refillPerSecond);
+    this.lastRefill = now;
+  }
+
+  /**
+   * Wait until a token is available, then consume it. Fails fast when the
+   * limiter is paused for longer than maxWaitMs (e.g. the daily limit is used up).
+   */
+  async take(endpoint: string, maxWaitMs = DEFAULT_RETRY_OPTIONS.maxDelayMs): Promise<void> {
+    for (;;) {
+      const pause = this.pausedUntil - Date.now();
+      if (pause > maxWaitMs) {
+        throw new PolarRateLimitedError(endpoint, new Date(this.pausedUntil));
+      }
+      if (pause > 0) {
+        await sleep(pause);
+        continue;
+      }
+
+      const spacing = this.spacing && Date.now() < this.spacing.until ? this.spacing : null;
+      const gap = spacing ? this.nextSpacedAt - Date.now() : 0;
+      if (gap > maxWaitMs) {
+        throw new PolarRateLimitedError(endpoint, new Date(this.nextSpacedAt));
+      }
+      if (gap > 0) {
+        await sleep(gap);
+        continue;
+      }
+
+      this.refill();
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        if (spacing) this.nextSpacedAt = Date.now() + spacing.intervalMs;
+        return;
+      }
+      await sleep(((1 - this.tokens) / this.refillPerSecond) * 1000);
+    }
+  }
+
+  /**
+   * Stop handing out tokens until the given time
+   */
+  pauseUntil(timestamp: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, timestamp);
+    this.tokens = 0;
+  }
+
+  /**
+   * Hand out the last `requests` of a window evenly until `until` instead of
+   * in one burst
+   */
+  spread(requests: number, until: number): void {
+    const intervalMs = (until - Date.now()) / Math.max(1, requests);
+    this.spacing = { intervalMs, until };
+    this.nextSpacedAt = Math.min(this.nextSpacedAt, Date.now() + intervalMs);
+  }
+
+  stopSpreading(): void {
+    this.spacing = null;
+    this.nextSpacedAt = 0;
+  }
+
+  /** Seconds until the next token is available */
+  get waitSeconds(): number {
+    this.refill();
+    const pause = Math.max(0, this.pausedUntil - Date.now()) / 1000;
+    const spaced = this.spacing && Date.now() < this.spacing.until ? Math.max(0, this.nextSpacedAt - Date.now()) / 1000 : 0;
+    return Math.max(pause, spaced, this.tokens >= 1 ? 0 : (1 - this.tokens) / this.refillPerSecond);
+  }
+}
+
+// Roughly 450 requests per 15 minutes with bursts of 20, below the base
+// AccessLink short-term limit of 500 + 20 per registered user.
+export const polarRateLimiter = new TokenBucket(20, 0.5);
+
+function parsePair(value: string | null): [number, number] | null {
+  if (!value) return null;
+  const parts = value.split(",").map((part) => Number(part.trim()));
+  if (parts.length < 2 || parts.some((part) => Number.isNaN(part))) return null;
+  return [parts[0], parts[1]];
+}
+
+/**
+ * Read the AccessLink rate-limit headers, if present
+ */
+export function parseRateLimitHeaders(headers: Headers): RateLimitStatus | null {
+  const usage = parsePair(headers.get("RateLimit-Usage"));
+  const limit = parsePair(headers.get("RateLimit-Limit"));
+  const reset = parsePair(headers.get("RateLimit-Reset"));
+  if (!usage || !limit || !reset) return null;
+  return { usage, limit, reset };
+}
+
+/**
+ * What the latest AccessLink response said about the rate limit and the
+ * time, for the diagnose tool and /health
+ */
+export interface AccessLinkObservation {
+  /** Local clock when the response arrived, epoch ms */
+  receivedAt: number;
+  /** Server clock from the Date header, epoch ms */
+  serverTime: number | null;
+  rateLimit: RateLimitStatus | null;
+}
+
+let lastObservation: AccessLinkObservation | null = null;
+
+/**
+ * Clock and rate-limit headers of a response that arrived just now
+ */
+export function accessLinkObservation(headers: Headers): AccessLinkObservation {
+  const date = headers.get("Date");
+  const serverTime = date ? Date.parse(date) : NaN;
+  return {
+    receivedAt: Date.now(),
+    serverTime: Number.isNaN(serverTime) ? null : serverTime,
+    rateLimit: parseRateLimitHeaders(headers),
+  };
+}
+
+/** Remember a user request's response for the diagnostics */
+export function observeAccessLinkResponse(headers: Headers): void {
+  lastObservation = accessLinkObservation(headers);
+}
+
+export function lastAccessLinkObservation(): AccessLinkObservation | null {
+  return lastObservation;
+}
+
+/**
+ * Pause the shared limiter when a window is used up, and spread the last
+ * requests of a nearly used-up short-term window over the rest of it
+ */
+export function applyRateLimitStatus(status: RateLimitStatus): void {
+  const [shortUsage, longUsage] = status.usage;
+  const [shortLimit, longLimit] = status.limit;
+  const [shortReset, longReset] = status.reset;
+
+  if (longUsage >= longLimit) {
+    polarRateLimiter.pauseUntil(Date.now() + longReset * 1000);
+  } else if (shortUsage >= shortLimit) {
+    polarRateLimiter.pauseUntil(Date.now() + shortReset * 1000);
+  } else if (shortUsage >= shortLimit * SHORT_TERM_HEADROOM) {
+    polarRateLimiter.spread(shortLimit - shortUsage, Date.now() + shortReset * 1000);
+  } else {
+    polarRateLimiter.stopSpreading();
+  }
+}
+
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | null): number | null {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) return Math.max(0, date - Date.now());
+  return null;
+}
+
+/**
+ * Whether a failed request may be sent again. A 429 was never processed, so
+ * any method is retried; after a 5xx a write may already have taken effect,
+ * so only idempotent reads are.
+ */
+export function isRetryableStatus(status: number, method = "GET"): boolean {
+  if (status === 429) return true;
+  return status >= 500 && (method.toUpperCase() === "GET" || method.toUpperCase() === "HEAD");
+}
+
+/**
+ * When a 429 response says the quota frees up again: Retry-After when given,
+ * otherwise the reset of whichever rate-limit window is exhausted.
+ */
+export function rateLimitResetAt(response: Response): Date | null {
+  const retryAfter = parseRetryAfter(response.headers.get("Retry-After"));
+  if (retryAfter !== null) return new Date(Date.now() + retryAfter);
+
+  const status = parseRateLimitHeaders(response.headers);
+  if (!status) return null;
+  const [shortUsage, longUsage] = status.usage;
+  if (longUsage >= status.limit[1]) return new Date(Date.now() + status.reset[1] * 1000);
+  if (shortUsage >= status.limit[0]) return new Date(Date.now() + status.reset[0] * 1000);
+  return null;
+}
+
+/**
+ * Delay before the next attempt: the known reset time when the server gives
+ * one, otherwise exponential backoff with full jitter.
+ */
+export function retryDelayMs(attempt: number, response: Response, options: RetryOptions): number {
+  const resetAt = rateLimitResetAt(response);
+  if (resetAt) return Math.max(0, resetAt.getTime() - Date.now());
+
+  const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+  return Math.random() * ceiling;
+}
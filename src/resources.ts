@@ -0,0 +1,249 @@
+/**
+ * Polar MCP Resource Registry
+ * Polar data addressed by URI, so a client can attach one workout or night
+ * to a conversation: templates for an exercise, its FIT/TCX/GPX export and
+ * the sleep, Nightly Recharge and daily activity of a date, plus the listable
+ * polar://exercises index. Each read runs the matching tool from tools.ts,
+ * so profiles, quotas, cache, history and the access log work as for tool calls.
+ */
+
+import { ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import type { CallToolResult, ListResourcesResult, ReadResourceResult } from "@modelcontextprotocol/sdk/types.js";
+import type { ExerciseExport } from "./polar-client.js";
+import type { Exercise } from "./polar-models.js";
+import { callTool, exportContents, findTool, isToolAvailable } from "./tools.js";
+import type { PolarToolContext } from "./tools.js";
+
+type ResourceContents = ReadResourceResult["contents"][number];
+
+interface ResourceCall {
+  tool: string;
+  args: Record<string, unknown>;
+}
+
+interface PolarResourceTemplate {
+  name: string;
+  uriTemplate: string;
+  title: string;
+  description: string;
+  mimeType?: string;
+  /** Tools the template reads through; it is only registered when all of them are */
+  tools: string[];
+  /** The tool call that reads a resource, from its URI variables */
+  call: (variables: Record<string, string>) => ResourceCall;
+  /** Turn the tool's result into the resource contents. Defaults to pretty-printed JSON. */
+  contents?: (result: unknown, uri: URL) => ResourceContents;
+  /** Values to suggest for a URI variable */
+  complete?: Record<string, (value: string) => string[]>;
+  /** List every resource the template matches */
+  list?: (context: PolarToolContext) => Promise<ListResourcesResult>;
+}
+
+const EXPORT_FORMATS = ["fit", "tcx", "gpx"] as const;
+
+/** Days AccessLink keeps sleep, Nightly Recharge and activity data */
+const RECENT_DAYS = 28;
+
+function exerciseId(variables: Record<string, string>): string {
+  const { id } = variables;
+  if (!/^[\w-]+$/.test(id)) {
+    throw new McpError(ErrorCode.InvalidParams, `"${id}" is not a Polar exercise ID`);
+  }
+  return id;
+}
+
+function resourceDate(variables: Record<string, string>): string {
+  const { date } = variables;
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    throw new McpError(ErrorCode.InvalidParams, `Dates must use the YYYY-MM-DD format, got "${date}"`);
+  }
+  return date;
+}
+
+/** The last RECENT_DAYS dates starting with what was typed, newest first */
+function completeDate(value: string): string[] {
+  const dates = Array.from({ length: RECENT_DAYS }, (_, days) =>
+    new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10)
+  );
+  return dates.filter((date) => date.startsWith(value));
+}
+
+function jsonContents(result: unknown, uri: URL): ResourceContents {
+  return { uri: uri.href, mimeType: "application/json", text: JSON.stringify(result, null, 2) };
+}
+
+function exerciseTitle(exercise: Exercise): string {
+  const sport = exercise.detailed_sport_info ?? exercise.sport ?? "Exercise";
+  return `${sport} on ${exercise.start_time.slice(0, 16).replace("T", " ")}`;
+}
+
+function exerciseIndex(exercises: Exercise[]) {
+  return exercises.map((exercise) => ({
+    uri: `polar://exercise/${exercise.id}`,
+    id: exercise.id,
+    start_time: exercise.start_time,
+    sport: exercise.sport,
+    detailed_sport_info: exercise.detailed_sport_info,
+    duration: exercise.duration,
+    distance: exercise.distance,
+    has_route: exercise.has_route,
+  }));
+}
+
+export const POLAR_RESOURCE_TEMPLATES: PolarResourceTemplate[] = [
+  {
+    name: "exercise",
+    uriTemplate: "polar://exercise/{id}",
+    title: "Polar exercise",
+    description:
+      "One exercise with its summary, heart rate zones and samples (heart rate, speed, cadence, altitude, distance). Listing returns the exercises of the last 30 days.",
+    mimeType: "application/json",
+    tools: ["get_exercises", "get_exercise"],
+    call: (variables) => ({
+      tool: "get_exercise",
+      args: { exerciseId: exerciseId(variables), samples: true, zones: true },
+    }),
+    list: async (context) => {
+      const outcome = await readTool("get_exercises", {}, context, "polar://exercises", (exercises: Exercise[]) => ({
+        resources: exercises.map((exercise) => ({
+          uri: `polar://exercise/${exercise.id}`,
+          name: `exercise-${exercise.id}`,
+          title: exerciseTitle(exercise),
+          mimeType: "application/json",
+        })),
+      }));
+      if ("failure" in outcome) {
+        // One failing listing must not hide every other resource
+        console.error(`Could not list exercises: ${failureText(outcome.failure)}`);
+        return { resources: [] };
+      }
+      return outcome.response;
+    },
+  },
+  {
+    name: "exercise-export",
+    uriTemplate: "polar://exercise/{id}/{format}",
+    title: "Polar exercise export",
+    description:
+      "The FIT (binary, base64 blob), TCX or GPX (XML text) file of an exercise. GPX only exists for exercises with a GPS route.",
+    tools: ["get_exercise_fit", "get_exercise_tcx", "get_exercise_gpx"],
+    call: (variables) => {
+      const format = EXPORT_FORMATS.find((candidate) => candidate === variables.format);
+      if (!format) {
+        throw new McpError(ErrorCode.InvalidParams, `Exports are ${EXPORT_FORMATS.join(", ")}, got "${variables.format}"`);
+      }
+      return { tool: `get_exercise_${format}`, args: { exerciseId: exerciseId(variables) } };
+    },
+    contents: (download) => exportContents(download as ExerciseExport),
+    complete: {
+      format: (value) => EXPORT_FORMATS.filter((format) => format.startsWith(value)),
+    },
+  },
+  {
+    name: "sleep",
+    uriTemplate: "polar://sleep/{date}",
+    title: "Polar sleep",
+    description:
+      "The night ending on a date (YYYY-MM-DD): sleep stages, sleep score, duration and interruptions. The last 28 days are available.",
+    mimeType: "application/json",
+    tools: ["get_sleep"],
+    call: (variables) => ({ tool: "get_sleep", args: { date: resourceDate(variables) } }),
+    complete: { date: completeDate },
+  },
+  {
+    name: "nightly-recharge",
+    uriTemplate: "polar://nightly-recharge/{date}",
+    title: "Polar Nightly Recharge",
+    description:
+      "Overnight recovery for a date (YYYY-MM-DD): ANS charge, HRV, breathing rate and recovery status. The last 28 days are available.",
+    mimeType: "application/json",
+    tools: ["get_nightly_recharge"],
+    call: (variables) => ({ tool: "get_nightly_recharge", args: { date: resourceDate(variables) } }),
+    complete: { date: completeDate },
+  },
+  {
+    name: "activity",
+    uriTemplate: "polar://activity/{date}",
+    title: "Polar daily activity",
+    description: "Daily activity for a date (YYYY-MM-DD): steps, calories, active time and goal progress.",
+    mimeType: "application/json",
+    tools: ["get_daily_activity"],
+    call: (variables) => ({ tool: "get_daily_activity", args: { date: resourceDate(variables) } }),
+    complete: { date: completeDate },
+  },
+];
+
+/**
+ * Read a resource through a tool; the access log records the URI with the arguments
+ */
+function readTool<Result, Response>(
+  name: string,
+  args: Record<string, unknown>,
+  context: PolarToolContext,
+  uri: string,
+  present: (result: Result) => Response
+) {
+  // The caller names the tool, so it knows what its run returns
+  return callTool(findTool(name), args, context, (result) => present(result as Result), { ...args, uri });
+}
+
+function failureText(failure: CallToolResult): string {
+  const [first] = failure.content;
+  return first?.type === "text" ? first.text : "The resource could not be read";
+}
+
+/**
+ * Register the resource templates and the exercise index whose tools are
+ * available in this deployment
+ */
+export function registerPolarResources(server: McpServer, context: PolarToolContext): void {
+  const available = (name: string) => isToolAvailable(findTool(name), context);
+
+  for (const template of POLAR_RESOURCE_TEMPLATES) {
+    if (!template.tools.every(available)) continue;
+    const { list, complete = {} } = template;
+    const resourceTemplate = new ResourceTemplate(template.uriTemplate, {
+      list: list && (() => list(context)),
+      complete,
+    });
+    server.registerResource(
+      template.name,
+      resourceTemplate,
+      { title: template.title, description: template.description, mimeType: template.mimeType },
+      async (uri, variables) => {
+        const values = Object.fromEntries(
+          Object.entries(variables).map(([name, value]) => [name, Array.isArray(value) ? value.join(",") : value])
+        );
+        const { tool, args } = template.call(values);
+        const contents = template.contents ?? jsonContents;
+        const outcome = await readTool(tool, args, context, uri.href, (result) => ({
+          contents: [contents(result, uri)],
+        }));
+        if ("failure" in outcome) throw new Error(failureText(outcome.failure));
+        return outcome.response;
+      }
+    );
+  }
+
+  if (available("get_exercises")) {
+    server.registerResource(
+      "exercises",
+      "polar://exercises",
+      {
+        title: "Polar exercises",
+        description:
+          "Index of the exercises of the last 30 days: start time, sport, duration, distance and the polar://exercise/{id} URI of each.",
+        mimeType: "application/json",
+      },
+      async (uri) => {
+        const outcome = await readTool("get_exercises", {}, context, uri.href, (exercises: Exercise[]) => ({
+          contents: [jsonContents(exerciseIndex(exercises), uri)],
+        }));
+        if ("failure" in outcome) throw new Error(failureText(outcome.failure));
+        return outcome.response;
+      }
+    );
+  }
+}
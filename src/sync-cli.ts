@@ -0,0 +1,85 @@
+#!/usr/bin/env node
+
+/**
+ * Polar AccessLink Sync
+ *
+ * Pulls new exercises, daily activity and physical information into the
+ * local history store through AccessLink transactions, like the sync_now
+ * tool. Suitable for cron.
+ *
+ * Usage:
+ *   npm run sync                      # all data types
+ *   npm run sync -- exercise activity # only the listed types
+ *   npm run sync -- --profile anna    # a profile from the credentials file
+ *
+ * Reads POLAR_ACCESS_TOKEN or the credentials file `npm run auth` writes,
+ * and POLAR_HISTORY_DIR, like the MCP server.
+ */
+
+import { PolarClient } from "./polar-client.js";
+import type { TransactionType } from "./polar-client.js";
+import { openHistoryStore } from "./history-store.js";
+import type { JsonlHistoryStore } from "./history-store.js";
+import { openProfileHistory, profilesPath, profileToken, readProfiles } from "./profiles.js";
+import { syncNow, TRANSACTION_TYPES } from "./sync.js";
+
+const args = process.argv.slice(2);
+const profileFlag = args.indexOf("--profile");
+const profile = profileFlag === -1 ? undefined : args.splice(profileFlag, 2)[1];
+
+/**
+ * Token and history store to sync: --profile, else POLAR_ACCESS_TOKEN, else
+ * the credentials file's POLAR_PROFILE or default profile
+ */
+async function account(): Promise<{ accessToken: string; store: JsonlHistoryStore | undefined }> {
+  if (!profile && process.env.POLAR_ACCESS_TOKEN) {
+    return { accessToken: process.env.POLAR_ACCESS_TOKEN, store: openHistoryStore() };
+  }
+
+  const path = profilesPath();
+  const file = await readProfiles(path);
+  const name = profile ?? process.env.POLAR_PROFILE ?? file?.default;
+  const saved = name ? file?.profiles[name] : undefined;
+  if (!name || !saved) {
+    console.error(
+      profile
+        ? `Error: No profile "${profile}" in ${path} (see \`npm run auth -- --profile ${profile}\`)`
+        : "Error: Please run `npm run auth` to save your Polar credentials, or set POLAR_ACCESS_TOKEN"
+    );
+    process.exit(1);
+  }
+  return {
+    accessToken: profileToken(name, saved, process.env.POLAR_CREDENTIALS_PASSPHRASE),
+    store: openProfileHistory(process.env, name),
+  };
+}
+
+const requested = args;
+const unknown = requested.filter((type) => !TRANSACTION_TYPES.includes(type as TransactionType));
+if (unknown.length > 0) {
+  console.error(`Error: Unknown data type(s): ${unknown.join(", ")}. Expected: ${TRANSACTION_TYPES.join(", ")}`);
+  process.exit(1);
+}
+
+async function main() {
+  try {
+    const { accessToken, store } = await account();
+    if (!store) {
+      console.error("Error: POLAR_HISTORY_DIR is set to \"off\"; there is nowhere to sync to");
+      process.exit(1);
+    }
+    const types = requested.length > 0 ? (requested as TransactionType[]) : TRANSACTION_TYPES;
+    const results = await syncNow(new PolarClient(accessToken), store, store, types);
+    for (const result of results) {
+      const status = result.transactionId === undefined
+        ? "nothing new"
+        : `${result.stored} stored from transaction ${result.transactionId}${result.resumed ? " (resumed)" : ""}`;
+      console.log(`${result.type}: ${status}`);
+    }
+  } catch (error) {
+    console.error("Sync failed:", error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
+
+main();
@@ -0,0 +1,142 @@
+/**
+ * Incremental Sync
+ * Pulls new exercises, daily activity and physical information through the
+ * AccessLink transaction API into the history store. Each item is delivered
+ * once; progress is checkpointed per item so an interrupted sync resumes the
+ * same transaction instead of losing it.
+ */
+
+import type { PolarClient, TransactionType } from "./polar-client.js";
+import { PolarNoDataError } from "./errors.js";
+import type { HistoryKind, HistoryRecord, HistoryStore } from "./history.js";
+
+export const TRANSACTION_TYPES: TransactionType[] = ["exercise", "activity", "physical-information"];
+
+export interface SyncCheckpoint {
+  transactionId: number;
+  /** Item URLs already written to the history store */
+  stored: string[];
+}
+
+export interface SyncStateStore {
+  getCheckpoint(type: TransactionType): Promise<SyncCheckpoint | undefined>;
+  setCheckpoint(type: TransactionType, checkpoint: SyncCheckpoint | undefined): Promise<void>;
+}
+
+export interface SyncResult {
+  type: TransactionType;
+  /** Committed transaction; absent when there was nothing new */
+  transactionId?: number;
+  /** True when an interrupted transaction was picked up again */
+  resumed: boolean;
+  items: number;
+  stored: number;
+}
+
+/** AccessLink kebab-case keys to the snake_case used by the non-transactional endpoints */
+function snakeCase(record: Record<string, unknown>): HistoryRecord {
+  return Object.fromEntries(Object.entries(record).map(([key, value]) => [key.replaceAll("-", "_"), value]));
+}
+
+interface TransactionHandler {
+  kind: HistoryKind;
+  fetch: (client: PolarClient, url: string) => Promise<HistoryRecord>;
+}
+
+const HANDLERS: Record<TransactionType, TransactionHandler> = {
+  exercise: {
+    kind: "exercises",
+    fetch: async (client, url) => {
+      // The transaction id cannot be used with /exercises/{id}, so keep it apart
+      const { id, ...exercise } = snakeCase(await client.getTransactionExercise(url));
+      return { ...exercise, transaction_exercise_id: id };
+    },
+  },
+  activity: {
+    kind: "daily-activity",
+    fetch: async (client, url) => {
+      const activity = snakeCase(await client.getTransactionActivity(url));
+      return {
+        ...activity,
+        start_time: `${activity.date}T00:00:00`,
+        active_duration: activity.duration,
+        steps: activity.active_steps,
+      };
+    },
+  },
+  "physical-information": {
+    kind: "physical-information",
+    fetch: async (client, url) => snakeCase(await client.getTransactionPhysicalInfo(url)),
+  },
+};
+
+/**
+ * Open (or resume) a transaction, store each item and commit
+ */
+async function syncType(
+  client: PolarClient,
+  userId: number,
+  type: TransactionType,
+  history: HistoryStore,
+  state: SyncStateStore
+): Promise<SyncResult> {
+  const handler = HANDLERS[type];
+  let checkpoint = await state.getCheckpoint(type);
+  let urls: string[] | undefined;
+  const resumed = checkpoint !== undefined;
+
+  if (checkpoint) {
+    try {
+      urls = await client.listTransactionItems(userId, type, checkpoint.transactionId);
+    } catch (error) {
+      if (!(error instanceof PolarNoDataError)) throw error;
+      // Expired or already committed: everything in it was stored or will be redelivered
+      checkpoint = undefined;
+      await state.setCheckpoint(type, undefined);
+    }
+  }
+
+  if (!checkpoint) {
+    let transactionId: number;
+    try {
+      transactionId = await client.createTransaction(userId, type);
+    } catch (error) {
+      if (error instanceof PolarNoDataError) return { type, resumed: false, items: 0, stored: 0 };
+      throw error;
+    }
+    checkpoint = { transactionId, stored: [] };
+    await state.setCheckpoint(type, checkpoint);
+    urls = await client.listTransactionItems(userId, type, transactionId);
+  }
+
+  let stored = 0;
+  for (const url of urls ?? []) {
+    if (checkpoint.stored.includes(url)) continue;
+    await history.upsert(handler.kind, [await handler.fetch(client, url)]);
+    checkpoint.stored.push(url);
+    await state.setCheckpoint(type, checkpoint);
+    stored++;
+  }
+
+  await client.commitTransaction(userId, type, checkpoint.transactionId);
+  await state.setCheckpoint(type, undefined);
+
+  return { type, transactionId: checkpoint.transactionId, resumed, items: urls?.length ?? 0, stored };
+}
+
+/**
+ * Sync the given transaction types into the history store
+ */
+export async function syncNow(
+  client: PolarClient,
+  history: HistoryStore,
+  state: SyncStateStore,
+  types: TransactionType[] = TRANSACTION_TYPES
+): Promise<SyncResult[]> {
+  const user = await client.getUserInfo();
+  const results: SyncResult[] = [];
+  for (const type of types) {
+    results.push(await syncType(client, user["polar-user-id"], type, history, state));
+  }
+  return results;
+}
@@ -0,0 +1,160 @@
+/**
+ * Polar Token Encryption
+ * Envelope encryption for the Polar access tokens the Worker keeps in OAuth
+ * grants, MCP session props and the per-user Durable Object. Each token is
+ * encrypted with its own AES-GCM data key, and that key is wrapped (AES-KW)
+ * with a key derived from the TOKEN_ENCRYPTION_KEY secret, so a storage dump
+ * without the secret reveals no tokens. After a rotation the old secret stays
+ * in TOKEN_ENCRYPTION_KEY_PREVIOUS until every grant has been rewrapped.
+ */
+
+import type { Env, Props } from "./types.js";
+
+export interface SealedToken {
+  /** Which TOKEN_ENCRYPTION_KEY wrapped the data key */
+  kid: string;
+  /** AES-KW wrapped data key */
+  key: string;
+  iv: string;
+  data: string;
+}
+
+type TokenKeyEnv = Pick<Env, "TOKEN_ENCRYPTION_KEY" | "TOKEN_ENCRYPTION_KEY_PREVIOUS">;
+
+interface KeyEncryptionKey {
+  kid: string;
+  key: CryptoKey;
+}
+
+const encoder = new TextEncoder();
+
+function toBase64(bytes: ArrayBuffer | Uint8Array): string {
+  return btoa(String.fromCharCode(...new Uint8Array(bytes)));
+}
+
+function fromBase64(value: string): Uint8Array {
+  return Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+}
+
+async function keyEncryptionKey(secret: string): Promise<KeyEncryptionKey> {
+  const digest = new Uint8Array(await crypto.subtle.digest("SHA-256", encoder.encode(secret)));
+  const kid = Array.from(digest.subarray(0, 8), (byte) => byte.toString(16).padStart(2, "0")).join("");
+
+  const material = await crypto.subtle.importKey("raw", encoder.encode(secret), "HKDF", false, ["deriveKey"]);
+  const key = await crypto.subtle.deriveKey(
+    { name: "HKDF", hash: "SHA-256", salt: encoder.encode("polar-mcp-token-kek"), info: encoder.encode("v1") },
+    material,
+    { name: "AES-KW", length: 256 },
+    false,
+    ["wrapKey", "unwrapKey"]
+  );
+  return { kid, key };
+}
+
+async function currentKey(env: TokenKeyEnv): Promise<KeyEncryptionKey> {
+  if (!env.TOKEN_ENCRYPTION_KEY) {
+    throw new Error("TOKEN_ENCRYPTION_KEY is not configured; set it with `wrangler secret put TOKEN_ENCRYPTION_KEY`");
+  }
+  return keyEncryptionKey(env.TOKEN_ENCRYPTION_KEY);
+}
+
+/**
+ * The key that wrapped this token: the current one or, during a rotation, the previous one
+ */
+async function wrappingKey(env: TokenKeyEnv, sealed: SealedToken): Promise<KeyEncryptionKey> {
+  for (const secret of [env.TOKEN_ENCRYPTION_KEY, env.TOKEN_ENCRYPTION_KEY_PREVIOUS]) {
+    if (!secret) continue;
+    const candidate = await keyEncryptionKey(secret);
+    if (candidate.kid === sealed.kid) return candidate;
+  }
+  throw new Error("The Polar token was encrypted with a key this Worker no longer has; reconnect to authorize again");
+}
+
+/** Binds the ciphertext to its user, so tokens cannot be swapped between grants */
+function additionalData(userId: number): Uint8Array {
+  return encoder.encode(`polar-user:${userId}`);
+}
+
+export async function sealToken(env: TokenKeyEnv, token: string, userId: number): Promise<SealedToken> {
+  const kek = await currentKey(env);
+  const dataKey = (await crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, true, [
+    "encrypt",
+    "decrypt",
+  ])) as CryptoKey;
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv, additionalData: additionalData(userId) },
+    dataKey,
+    encoder.encode(token)
+  );
+  return {
+    kid: kek.kid,
+    key: toBase64(await crypto.subtle.wrapKey("raw", dataKey, kek.key, "AES-KW")),
+    iv: toBase64(iv),
+    data: toBase64(data),
+  };
+}
+
+export async function openToken(env: TokenKeyEnv, sealed: SealedToken, userId: number): Promise<string> {
+  const kek = await wrappingKey(env, sealed);
+  const dataKey = await crypto.subtle.unwrapKey("raw", fromBase64(sealed.key), kek.key, "AES-KW", "AES-GCM", false, [
+    "decrypt",
+  ]);
+  const token = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: fromBase64(sealed.iv), additionalData: additionalData(userId) },
+    dataKey,
+    fromBase64(sealed.data)
+  );
+  return new TextDecoder().decode(token);
+}
+
+/**
+ * Rewrap the data key with the current key; undefined when it already is.
+ * The token itself is never decrypted.
+ */
+export async function rewrapToken(env: TokenKeyEnv, sealed: SealedToken): Promise<SealedToken | undefined> {
+  const current = await currentKey(env);
+  if (sealed.kid === current.kid) return undefined;
+
+  const previous = await wrappingKey(env, sealed);
+  const dataKey = await crypto.subtle.unwrapKey(
+    "raw",
+    fromBase64(sealed.key),
+    previous.key,
+    "AES-KW",
+    "AES-GCM",
+    true,
+    ["encrypt", "decrypt"]
+  );
+  return {
+    ...sealed,
+    kid: current.kid,
+    key: toBase64(await crypto.subtle.wrapKey("raw", dataKey, current.key, "AES-KW")),
+  };
+}
+
+/**
+ * Props to store instead of these stale ones: a token wrapped with the
+ * previous key is rewrapped, a plaintext one from before encryption is
+ * sealed. Undefined when the props are current.
+ */
+export async function resealProps(env: TokenKeyEnv, props: Props): Promise<Props | undefined> {
+  if (props.sealedToken) {
+    const sealedToken = await rewrapToken(env, props.sealedToken);
+    return sealedToken && { ...props, sealedToken };
+  }
+  if (props.accessToken) {
+    const { accessToken, ...rest } = props;
+    return { ...rest, sealedToken: await sealToken(env, accessToken, props.userId) };
+  }
+  return undefined;
+}
+
+/**
+ * The Polar access token in the props, decrypted
+ */
+export async function propsAccessToken(env: TokenKeyEnv, props: Props): Promise<string> {
+  if (props.sealedToken) return openToken(env, props.sealedToken, props.userId);
+  if (props.accessToken) return props.accessToken;
+  throw new Error("The OAuth props carry no Polar token; reconnect to authorize again");
+}
@@ -0,0 +1,1013 @@
+/**
+ * Polar MCP Tool Registry
+ * Single source of tool definitions shared between local and remote MCP server
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type {
+  CallToolResult,
+  ElicitRequestFormParams,
+  ElicitResult,
+  ReadResourceResult,
+} from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { PolarClient } from "./polar-client.js";
+import type { ExerciseExport } from "./polar-client.js";
+import { decodeFit } from "./formats/fit.js";
+import { summarizeFit } from "./formats/fit-summary.js";
+import { gpxTrackPoints, parseGpx } from "./formats/gpx.js";
+import { routeStats } from "./formats/route.js";
+import { parseTcx } from "./formats/tcx.js";
+import { deregisterPolarUser } from "./account.js";
+import { ACCESS_LOG_DEFAULT_LIMIT, ACCESS_LOG_MAX_LIMIT, ACCESS_LOG_RETENTION_DAYS } from "./access-log.js";
+import type { AccessLog, AccessLogEntry } from "./access-log.js";
+import { cacheKey, CACHE_TTL, dateCache, fixedCache, rangeCache } from "./cache.js";
+import type { CachePolicy, ResponseCache } from "./cache.js";
+import type { DataCategory } from "./consent.js";
+import { describeQuota } from "./quota.js";
+import type { QuotaGate } from "./quota.js";
+import { diagnoseAccount } from "./diagnostics.js";
+import { inDateRange, mergeHistory } from "./history.js";
+import type { HistoryKind, HistoryRecord, HistoryStore } from "./history.js";
+import { syncNow, TRANSACTION_TYPES } from "./sync.js";
+import type { SyncStateStore } from "./sync.js";
+import {
+  PolarApiError,
+  PolarNoDataError,
+  PolarUnauthorizedError,
+  PolarUserNotRegisteredError,
+  QuotaExceededError,
+} from "./errors.js";
+
+export interface ProfileInfo {
+  name: string;
+  userId?: number;
+  /** Used by tool calls that name no profile */
+  active: boolean;
+  /** Active when the server starts */
+  default: boolean;
+}
+
+/**
+ * Named Polar accounts (stdio only, see profiles.ts). Every tool gains a
+ * `profile` argument, and each call runs with that profile's context.
+ */
+export interface PolarProfiles {
+  list(): ProfileInfo[];
+  /** Make a profile active for the rest of the server's lifetime */
+  switchTo(name: string): ProfileInfo;
+  /** Context for a profile (token, history, ...); the active one when name is undefined */
+  resolve(name?: string): Partial<PolarToolContext>;
+}
+
+export interface PolarToolContext {
+  getAccessToken: () => string;
+  /** How the user re-authorizes in this deployment, appended to 401/403 hints */
+  reauthorizeHint: string;
+  /** Persist a downloaded file and return its path (stdio only, when configured) */
+  saveDownload?: (filename: string, bytes: Uint8Array) => Promise<string>;
+  /** Long-term record store (stdio only); range tools merge it with fresh API data */
+  history?: HistoryStore;
+  /** Transaction checkpoints for sync_now (stdio only) */
+  syncState?: SyncStateStore;
+  /** Reuse recent tool results (remote only); cacheable tools gain a `refresh` argument */
+  cache?: ResponseCache;
+  /** Ask the user through MCP elicitation; fails when the client does not support it */
+  elicit?: (params: ElicitRequestFormParams) => Promise<ElicitResult>;
+  /** Erase everything the deployment stores about the user; returns what was erased */
+  eraseUserData?: () => Promise<string[]>;
+  /** Several Polar accounts to choose from per call */
+  profiles?: PolarProfiles;
+  /** Data the user let this client read (remote only); tools needing anything else are not registered */
+  categories?: DataCategory[];
+  /** Record of every tool call on the user's data (remote only) */
+  accessLog?: AccessLog;
+  /** OAuth client ID of the MCP client, recorded in the access log */
+  clientId?: string;
+  /** Request budgets of the user and MCP client (remote only); calls are refused once one is spent */
+  quota?: QuotaGate;
+}
+
+export interface PolarToolDefinition<Shape extends z.ZodRawShape = z.ZodRawShape, Result = unknown> {
+  name: string;
+  description: string;
+  schema: Shape;
+  /** Short label used in error messages, e.g. "Error fetching <label>: ..." */
+  label: string;
+  /** Fetch the data for the given arguments through the typed client */
+  run(client: PolarClient, args: z.infer<z.ZodObject<Shape>>, context: PolarToolContext): Promise<NoInfer<Result>>;
+  /** Only register the tool when the deployment provides what it needs */
+  isAvailable?: (context: PolarToolContext) => boolean;
+  /** Manages the server rather than one account's data, so it takes no `profile` argument */
+  global?: boolean;
+  /** Erases the access log along with everything else, so its own call is not recorded */
+  erasesAccessLog?: boolean;
+  /** Runs even when a quota is spent, e.g. to read the access log or delete the account */
+  unmetered?: boolean;
+  /** Data the tool reads; with `context.categories` it is only registered when all of it was granted */
+  category?: DataCategory | DataCategory[];
+  /** Record kind returned by `run`, kept in the history store when one is configured */
+  history?: HistoryKind;
+  /** How long a result may be reused when the deployment has a cache; results must be JSON */
+  cache?: CachePolicy;
+  /**
+   * Turn the API response into a tool result. Defaults to pretty-printed JSON.
+   * Annotate the first parameter to type the result of `run`.
+   */
+  handle?(
+    result: Result,
+    args: z.infer<z.ZodObject<Shape>>,
+    context: PolarToolContext
+  ): CallToolResult | Promise<CallToolResult>;
+}
+
+/**
+ * Identity helper so each definition infers its own argument types
+ */
+export function defineTool<Shape extends z.ZodRawShape, Result>(
+  definition: PolarToolDefinition<Shape, Result>
+): PolarToolDefinition<Shape, Result> {
+  return definition;
+}
+
+function jsonResult(result: unknown): CallToolResult {
+  return {
+    content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+  };
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return btoa(binary);
+}
+
+/**
+ * Resource contents of an exercise export: XML formats as text, FIT as a
+ * base64 blob. The URI is the export's resource template URI (see resources.ts).
+ */
+export function exportContents(download: ExerciseExport): ReadResourceResult["contents"][number] {
+  const uri = `polar://exercise/${download.exerciseId}/${download.format}`;
+  return download.format === "fit"
+    ? { uri, mimeType: download.mimeType, blob: toBase64(download.bytes) }
+    : { uri, mimeType: download.mimeType, text: new TextDecoder().decode(download.bytes) };
+}
+
+/**
+ * Return an exercise export as an embedded resource. When the deployment can
+ * save files, the file is written to disk and only its path is returned.
+ */
+async function exportResult(download: ExerciseExport, context: PolarToolContext): Promise<CallToolResult> {
+  const label = `${download.format.toUpperCase()} export of exercise ${download.exerciseId} (${download.bytes.byteLength} bytes)`;
+
+  if (context.saveDownload) {
+    const path = await context.saveDownload(download.filename, download.bytes);
+    return {
+      content: [{ type: "text", text: `Saved ${label} to ${path}` }],
+    };
+  }
+
+  return {
+    content: [
+      { type: "text", text: label },
+      { type: "resource", resource: exportContents(download) },
+    ],
+  };
+}
+
+/**
+ * Run a tool that returns history records: store what was fetched and, for
+ * range queries, merge in stored records. When the range is outside
+ * AccessLink's window, the stored records alone are returned.
+ */
+async function runWithHistory(
+  tool: PolarToolDefinition,
+  kind: HistoryKind,
+  client: PolarClient,
+  args: Record<string, unknown>,
+  context: PolarToolContext & { history: HistoryStore }
+): Promise<unknown> {
+  const { history } = context;
+  const from = args.from as string | undefined;
+  const to = args.to as string | undefined;
+  const isRange = from !== undefined || to !== undefined;
+
+  let fresh: unknown;
+  try {
+    fresh = await tool.run(client, args, context);
+  } catch (error) {
+    const outOfWindow =
+      error instanceof PolarNoDataError || (error instanceof PolarApiError && error.status === 400);
+    if (!isRange || !outOfWindow) throw error;
+    const stored = await history.query(kind, from, to);
+    if (stored.length === 0) throw error;
+    return mergeHistory(kind, [], stored, from, to);
+  }
+
+  const records = (Array.isArray(fresh) ? fresh : [fresh]) as HistoryRecord[];
+  try {
+    await history.upsert(kind, records);
+  } catch (error) {
+    // Never fail a tool call because the local store is unwritable
+    console.error(`Could not save ${kind} history:`, error);
+  }
+  if (!isRange) return fresh;
+  return mergeHistory(kind, records, await history.query(kind, from, to), from, to);
+}
+
+/**
+ * Fetch a tool's result, through the history store when the tool has one
+ */
+function fetchResult(
+  tool: PolarToolDefinition,
+  client: PolarClient,
+  args: Record<string, unknown>,
+  context: PolarToolContext
+): Promise<unknown> {
+  return tool.history && context.history
+    ? runWithHistory(tool, tool.history, client, args, { ...context, history: context.history })
+    : tool.run(client, args, context);
+}
+
+/**
+ * Serve a tool's result from the cache while it is fresh, unless the call
+ * asks for `refresh`. Cache failures only cost the cache, never the call.
+ */
+async function runCached(
+  tool: PolarToolDefinition,
+  policy: CachePolicy,
+  client: PolarClient,
+  args: Record<string, unknown>,
+  context: PolarToolContext & { cache: ResponseCache }
+): Promise<unknown> {
+  const { cache } = context;
+  const key = cacheKey(tool.name, args);
+
+  if (!args.refresh) {
+    try {
+      const cached = await cache.get(key);
+      if (cached !== undefined) return cached;
+    } catch (error) {
+      console.error(`Could not read cached ${tool.label}:`, error);
+    }
+  }
+
+  const result = await fetchResult(tool, client, args, context);
+  try {
+    await cache.set(key, result, policy(args));
+  } catch (error) {
+    console.error(`Could not cache ${tool.label}:`, error);
+  }
+  return result;
+}
+
+/**
+ * Ask the user to confirm account deletion. Anything but an explicit
+ * confirmation (decline, cancel, unchecked box) counts as no.
+ */
+async function confirmAccountDeletion(context: PolarToolContext): Promise<boolean> {
+  let result: ElicitResult;
+  try {
+    result = await context.elicit!({
+      message:
+        "Delete your Polar data from this server? This deregisters your Polar account from the server's AccessLink client, revokes its access and permanently erases cached data and history. Your data in Polar Flow is not affected.",
+      requestedSchema: {
+        type: "object",
+        properties: {
+          confirm: {
+            type: "boolean",
+            title: "Yes, delete my data",
+            description: "Check to permanently delete your data from this server",
+          },
+        },
+        required: ["confirm"],
+      },
+    });
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`Could not ask for confirmation (${reason}). Nothing was deleted.`);
+  }
+  return result.action === "accept" && result.content?.confirm === true;
+}
+
+/**
+ * Render a failure as a tool result the model can act on. "No data" is not
+ * an error from the model's point of view, so it is returned as plain text.
+ */
+function errorResult(error: unknown, label: string, context: PolarToolContext): CallToolResult {
+  if (error instanceof PolarNoDataError) {
+    return {
+      content: [{ type: "text", text: `No ${label} available. ${error.hint}` }],
+    };
+  }
+
+  let text = `Error fetching ${label}: ${error instanceof Error ? error.message : String(error)}`;
+  if (error instanceof PolarApiError) {
+    const needsReauth =
+      error instanceof PolarUnauthorizedError || error instanceof PolarUserNotRegisteredError;
+    text += `\n\nNext step: ${needsReauth ? `${error.hint} ${context.reauthorizeHint}` : error.hint}`;
+  }
+
+  return {
+    content: [{ type: "text", text }],
+    isError: true,
+  };
+}
+
+const refreshSchema = z
+  .boolean()
+  .optional()
+  .describe("Skip cached results and fetch fresh data from Polar. Use when the user just synced their device.");
+
+const profileSchema = z
+  .string()
+  .optional()
+  .describe("Profile (Polar account) to use, see list_profiles. Defaults to the active profile.");
+
+/** Dates end up in API paths, so only YYYY-MM-DD gets through */
+const dateParam = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use the YYYY-MM-DD format");
+
+const dateRangeSchema = {
+  from: dateParam.describe("Start date (YYYY-MM-DD format). Required."),
+  to: dateParam.describe("End date (YYYY-MM-DD format). Required."),
+};
+
+const optionalDateRangeSchema = {
+  from: dateParam.optional().describe("Start date (YYYY-MM-DD format). Optional."),
+  to: dateParam.optional().describe("End date (YYYY-MM-DD format). Optional."),
+};
+
+const sleepWiseDateRangeSchema = {
+  from: dateParam
+    .optional()
+    .describe("Start date (YYYY-MM-DD format). If not provided, returns data from the last 28 days."),
+  to: dateParam.optional().describe("End date (YYYY-MM-DD format). Optional."),
+};
+
+/** Exercise IDs end up in API paths (and download file names), so nothing but an ID gets through */
+const exerciseIdParam = z.string().regex(/^[\w-]+$/, "Exercise IDs contain only letters, digits, _ and -");
+
+const exerciseIdSchema = {
+  exerciseId: exerciseIdParam.describe("The exercise ID to download. Required."),
+};
+
+export const POLAR_TOOLS: PolarToolDefinition[] = [
+  defineTool({
+    name: "get_user_info",
+    description:
+      "Get information about the registered Polar user including name, weight, height, birthdate, and other profile data",
+    schema: {},
+    label: "user info",
+    category: "profile",
+    cache: fixedCache(CACHE_TTL.profile),
+    run: (client) => client.getUserInfo(),
+  }),
+
+  defineTool({
+    name: "get_exercises",
+    description:
+      "Get exercise data from Polar. Returns exercises from the last 30 days. Can include detailed samples (heart rate, speed, distance, etc.) and training zones for deeper analysis.",
+    schema: {
+      samples: z
+        .boolean()
+        .optional()
+        .describe(
+          "Include detailed sample data (heart rate, speed, cadence, altitude, distance, temperature). Useful for detailed training analysis."
+        ),
+      zones: z
+        .boolean()
+        .optional()
+        .describe("Include heart rate zone information showing time spent in each training zone."),
+    },
+    label: "exercises",
+    category: "exercises",
+    cache: fixedCache(CACHE_TTL.latest),
+    history: "exercises",
+    run: (client, { samples, zones }) => client.listExercises({ samples, zones }),
+  }),
+
+  defineTool({
+    name: "get_exercises_range",
+    description:
+      "Get exercises for a date range (by start date). AccessLink only returns the last 30 days; the local server also keeps every exercise it has fetched, so older ranges are answered from that history.",
+    schema: dateRangeSchema,
+    label: "exercises range",
+    category: "exercises",
+    cache: rangeCache,
+    history: "exercises",
+    run: async (client, { from, to }) =>
+      (await client.listExercises()).filter((exercise) => inDateRange(exercise.start_time.slice(0, 10), from, to)),
+  }),
+
+  defineTool({
+    name: "get_exercise",
+    description:
+      "Get detailed data for a specific exercise by ID. Can include samples and zones for detailed analysis.",
+    schema: {
+      exerciseId: exerciseIdParam.describe("The exercise ID to retrieve"),
+      samples: z.boolean().optional().describe("Include detailed sample data (heart rate, speed, etc.)"),
+      zones: z.boolean().optional().describe("Include heart rate zone information"),
+    },
+    label: "exercise",
+    category: "exercises",
+    cache: fixedCache(CACHE_TTL.exercise),
+    history: "exercises",
+    run: (client, { exerciseId, samples, zones }) => client.getExercise(exerciseId, { samples, zones }),
+  }),
+
+  defineTool({
+    name: "get_nightly_recharge",
+    description:
+      "Get Nightly Recharge data which measures overnight recovery. Includes ANS charge (Autonomic Nervous System recovery status), HRV data (heart rate variability during sleep), breathing rate, and overall recovery assessment. Data from the last 28 days is available.",
+    schema: {
+      date: dateParam
+        .optional()
+        .describe(
+          "Specific date to get nightly recharge data for (YYYY-MM-DD format). If not provided, returns available data."
+        ),
+    },
+    label: "nightly recharge data",
+    category: "recovery",
+    cache: dateCache,
+    history: "nightly-recharge",
+    run: (client, { date }) => (date ? client.getNightlyRecharge(date) : client.listNightlyRecharge()),
+  }),
+
+  defineTool({
+    name: "get_nightly_recharge_range",
+    description:
+      "Get Nightly Recharge data for a date range. Returns ANS charge, HRV, breathing rate, and recovery assessment for each night in the range.",
+    schema: dateRangeSchema,
+    label: "nightly recharge range",
+    category: "recovery",
+    cache: rangeCache,
+    history: "nightly-recharge",
+    run: (client, { from, to }) => client.listNightlyRecharge({ from, to }),
+  }),
+
+  defineTool({
+    name: "get_sleep",
+    description:
+      "Get sleep tracking data including sleep stages (deep, light, REM), sleep score, sleep duration, interruptions, and sleep quality metrics. Provides comprehensive sleep analysis.",
+    schema: {
+      date: dateParam
+        .optional()
+        .describe(
+          "Specific date to get sleep data for (YYYY-MM-DD format). If not provided, returns available sleep data."
+        ),
+    },
+    label: "sleep data",
+    category: "sleep",
+    cache: dateCache,
+    history: "sleep",
+    run: (client, { date }) => (date ? client.getSleep(date) : client.listSleep()),
+  }),
+
+  defineTool({
+    name: "get_sleep_range",
+    description:
+      "Get sleep data for a date range. Returns sleep tracking data including sleep stages, sleep scores, duration, and quality metrics for each night in the range.",
+    schema: dateRangeSchema,
+    label: "sleep range",
+    category: "sleep",
+    cache: rangeCache,
+    history: "sleep",
+    run: (client, { from, to }) => client.listSleep({ from, to }),
+  }),
+
+  defineTool({
+    name: "get_daily_activity",
+    description:
+      "Get daily activity summary including steps, calories burned, active time, activity goal progress, and activity classification throughout the day.",
+    schema: {
+      date: dateParam
+        .optional()
+        .describe(
+          "Specific date to get activity data for (YYYY-MM-DD format). If not provided, returns available activity data."
+        ),
+    },
+    label: "daily activity",
+    category: "activity",
+    cache: dateCache,
+    history: "daily-activity",
+    run: (client, { date }) => (date ? client.getDailyActivity(date) : client.listDailyActivity()),
+  }),
+
+  defineTool({
+    name: "get_daily_activity_range",
+    description:
+      "Get daily activity data for a date range. Returns activity summaries including steps, calories, active time, and goal progress for each day in the range.",
+    schema: dateRangeSchema,
+    label: "daily activity range",
+    category: "activity",
+    cache: rangeCache,
+    history: "daily-activity",
+    run: (client, { from, to }) => client.listDailyActivity({ from, to }),
+  }),
+
+  defineTool({
+    name: "get_activity_samples",
+    description:
+      "Get detailed activity samples including step counts and activity zone data throughout the day. Returns intraday activity breakdown.",
+    schema: {
+      date: dateParam
+        .optional()
+        .describe(
+          "Specific date to get activity samples for (YYYY-MM-DD format). If not provided, lists available dates with samples."
+        ),
+    },
+    label: "activity samples",
+    category: "activity",
+    cache: dateCache,
+    history: "activity-samples",
+    run: (client, { date }) => (date ? client.getActivitySamples(date) : client.listActivitySamples()),
+  }),
+
+  defineTool({
+    name: "get_activity_samples_range",
+    description:
+      "Get activity samples for a date range. Maximum range is 28 days, and from date cannot be older than 365 days.",
+    schema: dateRangeSchema,
+    label: "activity samples range",
+    category: "activity",
+    cache: rangeCache,
+    history: "activity-samples",
+    run: (client, { from, to }) => client.listActivitySamples({ from, to }),
+  }),
+
+  defineTool({
+    name: "get_physical_info",
+    description:
+      "Get physical information and body metrics including weight, height, maximum heart rate, resting heart rate, VO2max, and other physical characteristics.",
+    schema: {},
+    label: "physical info",
+    category: "profile",
+    cache: fixedCache(CACHE_TTL.profile),
+    run: (client) => client.getPhysicalInfo(),
+  }),
+
+  defineTool({
+    name: "get_continuous_heart_rate",
+    description:
+      "Get continuous heart rate data recorded throughout the day. Returns 5-minute interval heart rate samples. Requires heart rate tracking to be enabled on the Polar device.",
+    schema: {
+      date: dateParam.describe("Date to get heart rate data for (YYYY-MM-DD format). Required."),
+    },
+    label: "continuous heart rate",
+    category: "heart_rate",
+    cache: dateCache,
+    history: "continuous-heart-rate",
+    run: (client, { date }) => client.getContinuousHeartRate(date),
+  }),
+
+  defineTool({
+    name: "get_continuous_heart_rate_range",
+    description:
+      "Get continuous heart rate data for a date range. Returns 5-minute interval heart rate samples for each day in the range.",
+    schema: dateRangeSchema,
+    label: "continuous heart rate range",
+    category: "heart_rate",
+    cache: rangeCache,
+    history: "continuous-heart-rate",
+    run: (client, { from, to }) => client.listContinuousHeartRate({ from, to }),
+  }),
+
+  defineTool({
+    name: "get_cardio_load",
+    description:
+      "Get cardio load (training impulse/TRIMP) data measuring cardiovascular strain from training. Shows acute load, chronic load, and load status.",
+    schema: {
+      date: dateParam
+        .optional()
+        .describe(
+          "Specific date to get cardio load for (YYYY-MM-DD format). If not provided, returns recent cardio load data."
+        ),
+    },
+    label: "cardio load",
+    category: "recovery",
+    cache: dateCache,
+    history: "cardio-load",
+    run: (client, { date }) => (date ? client.getCardioLoad(date) : client.listCardioLoad()),
+  }),
+
+  defineTool({
+    name: "get_cardio_load_range",
+    description:
+      "Get cardio load data for a date range. Returns training load metrics for each day in the specified period.",
+    schema: dateRangeSchema,
+    label: "cardio load range",
+    category: "recovery",
+    cache: rangeCache,
+    history: "cardio-load",
+    run: (client, { from, to }) => client.listCardioLoadRange({ from, to }),
+  }),
+
+  defineTool({
+    name: "get_cardio_load_history",
+    description:
+      "Get historical cardio load data aggregated by days or months. Useful for long-term training load analysis.",
+    schema: {
+      period_type: z
+        .enum(["days", "months"])
+        .describe("Period type for aggregation: 'days' or 'months'. Required."),
+      count: z
+        .number()
+        .int()
+        .positive()
+        .describe("Number of periods to retrieve (e.g., 30 days or 6 months). Required."),
+    },
+    label: "cardio load history",
+    category: "recovery",
+    cache: fixedCache(CACHE_TTL.latest),
+    run: (client, { period_type, count }) => client.getCardioLoadHistory(period_type, count),
+  }),
+
+  defineTool({
+    name: "get_sleepwise_alertness",
+    description:
+      "Get SleepWise alertness data showing predicted alertness levels throughout the day based on sleep patterns. Helps understand when you'll be most alert or tired.",
+    schema: sleepWiseDateRangeSchema,
+    label: "SleepWise alertness",
+    category: "sleep",
+    cache: rangeCache,
+    history: "sleepwise-alertness",
+    run: (client, { from, to }) => client.getSleepWiseAlertness({ from, to }),
+  }),
+
+  defineTool({
+    name: "get_sleepwise_circadian_bedtime",
+    description:
+      "Get SleepWise circadian bedtime recommendations based on your sleep patterns and circadian rhythm. Suggests optimal bedtime for better sleep quality.",
+    schema: sleepWiseDateRangeSchema,
+    label: "SleepWise circadian bedtime",
+    category: "sleep",
+    cache: rangeCache,
+    history: "sleepwise-bedtime",
+    run: (client, { from, to }) => client.getSleepWiseCircadianBedtime({ from, to }),
+  }),
+
+  defineTool({
+    name: "get_body_temperature",
+    description:
+      "Get body temperature data from Elixir biosensing. Available on compatible Polar devices with temperature sensing capabilities.",
+    schema: optionalDateRangeSchema,
+    label: "body temperature",
+    category: "biosensing",
+    cache: rangeCache,
+    history: "body-temperature",
+    run: (client, { from, to }) => client.getBodyTemperature({ from, to }),
+  }),
+
+  defineTool({
+    name: "get_skin_temperature",
+    description:
+      "Get sleep skin temperature data from Elixir biosensing. Measures skin temperature during sleep for recovery insights.",
+    schema: optionalDateRangeSchema,
+    label: "skin temperature",
+    category: "biosensing",
+    cache: rangeCache,
+    history: "skin-temperature",
+    run: (client, { from, to }) => client.getSkinTemperature({ from, to }),
+  }),
+
+  defineTool({
+    name: "get_spo2",
+    description:
+      "Get SpO2 (blood oxygen saturation) test results from Elixir biosensing. Available on devices with SpO2 measurement capability.",
+    schema: optionalDateRangeSchema,
+    label: "SpO2 data",
+    category: "biosensing",
+    cache: rangeCache,
+    history: "spo2",
+    run: (client, { from, to }) => client.getSpo2({ from, to }),
+  }),
+
+  defineTool({
+    name: "get_exercise_fit",
+    description:
+      "Download exercise data in FIT format. FIT (Flexible and Interoperable Data Transfer) is a standard format used by fitness devices and apps. Returned as a base64 blob resource (application/vnd.ant.fit), or saved to disk when the local server has a download directory configured.",
+    schema: exerciseIdSchema,
+    label: "exercise FIT",
+    category: "exercises",
+    run: (client, { exerciseId }) => client.downloadExercise(exerciseId, "fit"),
+    handle: (download: ExerciseExport, _args, context) => exportResult(download, context),
+  }),
+
+  defineTool({
+    name: "get_exercise_fit_analysis",
+    description:
+      "Decode the FIT file of an exercise and summarize sessions, laps, device info, developer fields and per-channel statistics (heart rate, speed, power, cadence, altitude, temperature and running dynamics such as vertical oscillation, stance time and step length). Optionally includes per-second sample arrays. Use this for detail the JSON samples from get_exercise leave out.",
+    schema: {
+      exerciseId: exerciseIdParam.describe("The exercise ID to analyze. Required."),
+      includeSeries: z
+        .boolean()
+        .optional()
+        .describe("Include per-second sample arrays for the selected channels."),
+      fields: z
+        .array(z.string())
+        .optional()
+        .describe(
+          "Channels to include in the series, e.g. [\"heart_rate\", \"power\"]. Defaults to every channel with data."
+        ),
+      maxPoints: z
+        .number()
+        .int()
+        .positive()
+        .optional()
+        .describe("Maximum points per series; longer exercises are averaged into buckets. Default 600."),
+    },
+    label: "exercise FIT analysis",
+    category: "exercises",
+    cache: fixedCache(CACHE_TTL.exercise),
+    run: async (client, { exerciseId, includeSeries, fields, maxPoints }) => {
+      const download = await client.downloadExercise(exerciseId, "fit");
+      return summarizeFit(decodeFit(download.bytes), { series: includeSeries, fields, maxPoints });
+    },
+  }),
+
+  defineTool({
+    name: "get_exercise_route_summary",
+    description:
+      "Parse the TCX or GPX export of an exercise and summarize the route: distance, moving vs elapsed time, bounding box, elevation profile with smoothed total ascent/descent, heart rate, laps (TCX only) and a simplified [lat, lon] polyline. Indoor exercises without GPS still report laps, time and heart rate.",
+    schema: {
+      exerciseId: exerciseIdParam.describe("The exercise ID to summarize. Required."),
+      format: z
+        .enum(["tcx", "gpx"])
+        .optional()
+        .describe("Export to parse. TCX (default) includes laps; GPX only has the track."),
+      toleranceMeters: z
+        .number()
+        .positive()
+        .optional()
+        .describe("Douglas–Peucker simplification tolerance for the polyline, in metres. Default 10."),
+      maxPolylinePoints: z
+        .number()
+        .int()
+        .min(2)
+        .optional()
+        .describe("Maximum points in the simplified polyline; the tolerance is loosened to fit. Default 200."),
+    },
+    label: "exercise route summary",
+    category: "exercises",
+    cache: fixedCache(CACHE_TTL.exercise),
+    run: async (client, { exerciseId, format = "tcx", toleranceMeters, maxPolylinePoints }) => {
+      const download = await client.downloadExercise(exerciseId, format);
+      const xml = new TextDecoder().decode(download.bytes);
+      const options = { toleranceMeters, maxPolylinePoints };
+
+      if (format === "gpx") {
+        const tracks = parseGpx(xml);
+        return {
+          exerciseId,
+          format,
+          name: tracks[0]?.name,
+          ...routeStats(gpxTrackPoints(tracks), options),
+        };
+      }
+
+      const activity = parseTcx(xml);
+      return {
+        exerciseId,
+        format,
+        sport: activity.sport,
+        laps: activity.laps.map((lap, index) => ({ lap: index + 1, ...lap })),
+        ...routeStats(activity.trackpoints, options),
+      };
+    },
+  }),
+
+  defineTool({
+    name: "get_exercise_tcx",
+    description:
+      "Download exercise data in TCX format. TCX (Training Center XML) is compatible with many fitness platforms like Garmin Connect and Strava. Returned as an XML text resource, or saved to disk when the local server has a download directory configured.",
+    schema: exerciseIdSchema,
+    label: "exercise TCX",
+    category: "exercises",
+    run: (client, { exerciseId }) => client.downloadExercise(exerciseId, "tcx"),
+    handle: (download: ExerciseExport, _args, context) => exportResult(download, context),
+  }),
+
+  defineTool({
+    name: "get_exercise_gpx",
+    description:
+      "Download exercise GPS route in GPX format. GPX (GPS Exchange Format) contains the route/track data and can be used with mapping applications. Returned as an XML text resource, or saved to disk when the local server has a download directory configured.",
+    schema: exerciseIdSchema,
+    label: "exercise GPX",
+    category: "exercises",
+    run: (client, { exerciseId }) => client.downloadExercise(exerciseId, "gpx"),
+    handle: (download: ExerciseExport, _args, context) => exportResult(download, context),
+  }),
+
+  defineTool({
+    name: "sync_now",
+    description:
+      "Pull new exercises, daily activity and physical information (weight, VO2max, heart rate thresholds) from Polar into the local history using AccessLink transactions. Each item is downloaded once; an interrupted sync resumes where it stopped. Run this before long-term trend questions.",
+    schema: {
+      types: z
+        .array(z.enum(["exercise", "activity", "physical-information"]))
+        .optional()
+        .describe("Data types to sync. Defaults to all three."),
+    },
+    label: "new Polar data",
+    category: ["exercises", "activity", "profile"],
+    isAvailable: (context) => context.history !== undefined && context.syncState !== undefined,
+    run: (client, { types }, context) =>
+      syncNow(client, context.history!, context.syncState!, types?.length ? types : TRANSACTION_TYPES),
+  }),
+
+  defineTool({
+    name: "diagnose",
+    description:
+      "Check why Polar data is missing or tool calls fail: whether the access token is valid, whether the account is registered with this server's AccessLink client, which data types (exercises, sleep, Nightly Recharge, daily activity, continuous heart rate, SleepWise, Elixir biosensing such as temperature and SpO2) actually return recent data for the user's device and consents, how much of the AccessLink rate limit is left and whether the server clock agrees with Polar's. Use it when a tool returns no data or an unexpected error, instead of guessing at the cause.",
+    schema: {},
+    label: "diagnostics",
+    run: (client, _args, context) => diagnoseAccount(client, { categories: context.categories }),
+  }),
+
+  defineTool({
+    name: "delete_my_account",
+    description:
+      "Permanently delete the user's data from this server: deregister their Polar account from AccessLink, revoke this server's access and erase cached data and history. Only call this when the user explicitly asks to delete their account or data; they are asked to confirm before anything is deleted.",
+    schema: {},
+    label: "account deletion",
+    erasesAccessLog: true,
+    unmetered: true,
+    isAvailable: (context) => context.elicit !== undefined && context.eraseUserData !== undefined,
+    run: async (client, _args, context) => {
+      if (!(await confirmAccountDeletion(context))) {
+        return { deleted: false, message: "Cancelled. Nothing was deleted." };
+      }
+      const deregistered = await deregisterPolarUser(client);
+      return { deleted: true, erased: [deregistered, ...(await context.eraseUserData!())] };
+    },
+  }),
+
+  defineTool({
+    name: "get_access_log",
+    description: `List the tool calls MCP clients made on this server with the user's Polar data, newest first: when, which client (OAuth client ID), which tool with which arguments, the Polar AccessLink endpoints it requested (none when served from cache or history), whether it succeeded and how long it took. Use it when the user asks which AI client read which of their health data and when. Entries are kept for ${ACCESS_LOG_RETENTION_DAYS} days.`,
+    schema: {
+      ...optionalDateRangeSchema,
+      tool: z.string().optional().describe("Only calls of this tool, e.g. get_sleep. Optional."),
+      limit: z
+        .number()
+        .int()
+        .min(1)
+        .max(ACCESS_LOG_MAX_LIMIT)
+        .optional()
+        .describe(`Most recent entries to return. Defaults to ${ACCESS_LOG_DEFAULT_LIMIT}.`),
+    },
+    label: "access log",
+    unmetered: true,
+    isAvailable: (context) => context.accessLog !== undefined,
+    run: (_client, { from, to, tool, limit }, context) =>
+      context.accessLog!.query({ from, to, tool, limit: limit ?? ACCESS_LOG_DEFAULT_LIMIT }),
+  }),
+
+  defineTool({
+    name: "list_profiles",
+    description:
+      "List the Polar accounts (profiles) this server can access, e.g. a coach's athletes or a second account, and which one tools use when no `profile` argument is given.",
+    schema: {},
+    label: "profiles",
+    global: true,
+    isAvailable: (context) => context.profiles !== undefined,
+    run: async (_client, _args, context) => context.profiles!.list(),
+  }),
+
+  defineTool({
+    name: "switch_profile",
+    description:
+      "Make another profile the active one, so later tool calls without a `profile` argument use that Polar account. Lasts until the server restarts.",
+    schema: {
+      name: z.string().describe("Profile name from list_profiles. Required."),
+    },
+    label: "profile switch",
+    global: true,
+    isAvailable: (context) => context.profiles !== undefined,
+    run: async (_client, { name }, context) => context.profiles!.switchTo(name),
+  }),
+];
+
+function errorSummary(response: CallToolResult): string | undefined {
+  const [first] = response.content;
+  return first?.type === "text" ? first.text.split("\n")[0].slice(0, 300) : undefined;
+}
+
+/** A failing log write must not fail the tool call it describes */
+async function recordAccess(log: AccessLog, entry: AccessLogEntry): Promise<void> {
+  try {
+    await log.record(entry);
+  } catch (error) {
+    console.error(`Could not record ${entry.tool} in the access log:`, error);
+  }
+}
+
+async function chargeQuota(quota: QuotaGate, tool: string, requests: number): Promise<void> {
+  try {
+    await quota.charge(requests);
+  } catch (error) {
+    console.error(`Could not count the Polar requests of ${tool} against the quota:`, error);
+  }
+}
+
+function categoriesGranted(tool: PolarToolDefinition, context: PolarToolContext): boolean {
+  if (!context.categories || !tool.category) return true;
+  const needed = Array.isArray(tool.category) ? tool.category : [tool.category];
+  return needed.every((category) => context.categories!.includes(category));
+}
+
+export function findTool(name: string): PolarToolDefinition {
+  const tool = POLAR_TOOLS.find((candidate) => candidate.name === name);
+  if (!tool) throw new Error(`Unknown tool ${name}`);
+  return tool;
+}
+
+/**
+ * Whether a tool is registered in this deployment: it has what it needs and
+ * the client was granted its data
+ */
+export function isToolAvailable(tool: PolarToolDefinition, context: PolarToolContext): boolean {
+  return (!tool.isAvailable || tool.isAvailable(context)) && categoriesGranted(tool, context);
+}
+
+/** A tool call's response, or the tool result describing why it failed */
+export type ToolOutcome<Response> = { response: Response } | { failure: CallToolResult };
+
+/**
+ * Run one call of a tool the way every MCP request does: with the profile it
+ * names, within quota, through the cache and history store, recorded in the
+ * access log. `present` turns the result into the response; `recordedArgs`
+ * replaces the arguments in the access log, e.g. to add a resource URI.
+ */
+export async function callTool<Response>(
+  tool: PolarToolDefinition,
+  args: Record<string, unknown>,
+  context: PolarToolContext,
+  present: (result: unknown, callContext: PolarToolContext) => Response | Promise<Response>,
+  recordedArgs: Record<string, unknown> = args
+): Promise<ToolOutcome<Response>> {
+  const cachePolicy = context.cache && tool.cache;
+  const quota = tool.unmetered ? undefined : context.quota;
+  const started = Date.now();
+  const endpoints: string[] = [];
+  let callContext = context;
+  let outcome: ToolOutcome<Response>;
+  try {
+    if (context.profiles && !tool.global) {
+      callContext = { ...context, ...context.profiles.resolve(args.profile as string | undefined) };
+    }
+    const exceeded = await quota?.exceeded();
+    if (exceeded) {
+      throw new QuotaExceededError(tool.name, describeQuota(exceeded.limit), new Date(exceeded.retryAt));
+    }
+    const client = new PolarClient(callContext.getAccessToken(), (request) => endpoints.push(request));
+    const result =
+      cachePolicy && callContext.cache
+        ? await runCached(tool, cachePolicy, client, args, { ...callContext, cache: callContext.cache })
+        : await fetchResult(tool, client, args, callContext);
+    outcome = { response: await present(result, callContext) };
+  } catch (error) {
+    outcome = { failure: errorResult(error, tool.label, callContext) };
+  }
+
+  if (quota && endpoints.length > 0) {
+    await chargeQuota(quota, tool.name, endpoints.length);
+  }
+  if (context.accessLog && !tool.erasesAccessLog) {
+    const failure = "failure" in outcome ? outcome.failure : undefined;
+    await recordAccess(context.accessLog, {
+      at: new Date(started).toISOString(),
+      clientId: context.clientId,
+      tool: tool.name,
+      args: recordedArgs,
+      endpoints,
+      status: failure?.isError ? "error" : "ok",
+      error: failure?.isError ? errorSummary(failure) : undefined,
+      durationMs: Date.now() - started,
+    });
+  }
+  return outcome;
+}
+
+/**
+ * Register every available tool in the registry on an MCP server
+ */
+export function registerPolarTools(server: McpServer, context: PolarToolContext): void {
+  for (const tool of POLAR_TOOLS) {
+    if (!isToolAvailable(tool, context)) continue;
+    const schema = {
+      ...tool.schema,
+      ...(context.cache && tool.cache ? { refresh: refreshSchema } : {}),
+      ...(context.profiles && !tool.global ? { profile: profileSchema } : {}),
+    };
+    server.tool(tool.name, tool.description, schema, async (args: Record<string, unknown>) => {
+      const outcome = await callTool(tool, args, context, (result, callContext) =>
+        tool.handle ? tool.handle(result, args, callContext) : jsonResult(result)
+      );
+      return "failure" in outcome ? outcome.failure : outcome.response;
+    });
+  }
+}
@@ -1,8 +1,17 @@
 import type { OAuthHelpers } from "@cloudflare/workers-oauth-provider";
+import type { DataCategory } from "./consent.js";
+import type { SealedToken } from "./token-encryption.js";
 
 export interface Props {
-  accessToken: string;
+  /** Envelope-encrypted Polar access token (see token-encryption.ts); only MyMCP decrypts it */
+  sealedToken?: SealedToken;
+  /** Plaintext token of grants from before encryption; sealed at their next refresh */
+  accessToken?: string;
   userId: number;
+  /** OAuth client ID of the MCP client the grant was issued to, for the access log */
+  clientId?: string;
+  /** Data categories granted on the approval dialog; grants from before consent had none and may read everything */
+  categories?: DataCategory[];
 }
 
 export interface Env {
@@ -11,4 +20,19 @@ export interface Env {
   OAUTH_KV: KVNamespace;
   MCP_OBJECT: DurableObjectNamespace;
   OAUTH_PROVIDER: OAuthHelpers;
+  /** signature_secret_key of the AccessLink webhook; /webhook rejects events until set */
+  POLAR_WEBHOOK_SECRET?: string;
+  /** Bearer token for the /admin routes; they answer 404 until set */
+  ADMIN_TOKEN?: string;
+  /** Wraps the keys of the encrypted Polar tokens in props and Durable Object storage */
+  TOKEN_ENCRYPTION_KEY: string;
+  /** The TOKEN_ENCRYPTION_KEY before a rotation; still unwraps tokens until each is rewrapped */
+  TOKEN_ENCRYPTION_KEY_PREVIOUS?: string;
+  /** AccessLink request budgets per user and per MCP client (see quota.ts); unset means unlimited */
+  QUOTA_USER_PER_15_MIN?: string;
+  QUOTA_USER_PER_DAY?: string;
+  QUOTA_CLIENT_PER_15_MIN?: string;
+  QUOTA_CLIENT_PER_DAY?: string;
+  /** HMAC key of the approval cookie; without it every authorization shows the approval dialog */
+  COOKIE_SIGNING_KEY?: string;
 }
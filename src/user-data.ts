@@ -0,0 +1,403 @@
+/**
+ * Per-user Data (Cloudflare Worker)
+ *
+ * MCP sessions each get their own MyMCP Durable Object, so data that must
+ * outlive a session — the Polar token for webhook fetches, the history
+ * filled by webhooks and tool calls, the tool response cache, the access
+ * log and the quota counters — lives in
+ * one extra MyMCP instance per Polar user, named `user:<polar user id>` and
+ * reached over RPC.
+ */
+
+/// <reference types="@cloudflare/workers-types" />
+
+import { accessLogCutoff, accessLogWindow, ACCESS_LOG_DEFAULT_LIMIT, ACCESS_LOG_MAX_LIMIT } from "./access-log.js";
+import type { AccessLog, AccessLogEntry, AccessLogQuery } from "./access-log.js";
+import type { ResponseCache } from "./cache.js";
+import { quotaWindowStart } from "./quota.js";
+import type { QuotaExceeded, QuotaGate, QuotaLimit } from "./quota.js";
+import { HISTORY_KINDS, inDateRange } from "./history.js";
+import type { HistoryKind, HistoryRecord, HistoryStore } from "./history.js";
+import type { WebhookEvent } from "./polar-models.js";
+import type { Env, Props } from "./types.js";
+
+/** What the user's instance stores, for the /account page */
+export interface UserDataSummary {
+  historyRecords: number;
+  /** ISO time a webhook, sync or tool call last stored a record */
+  lastHistoryUpdate?: string;
+  cachedResults: number;
+  cacheBytes: number;
+  accessLogEntries: number;
+}
+
+/** RPC methods MyMCP exposes on its per-user instance */
+export interface PolarUserData {
+  /** Store the user's token; `session` names the MCP session instance, so erasure can reach it */
+  saveCredentials(props: Props, session?: string): Promise<void>;
+  handleWebhookEvent(event: WebhookEvent): Promise<void>;
+  queryHistory(kind: HistoryKind, from?: string, to?: string): Promise<HistoryRecord[]>;
+  upsertHistory(kind: HistoryKind, records: HistoryRecord[]): Promise<void>;
+  getCached(key: string): Promise<unknown>;
+  setCached(key: string, value: unknown, ttlSeconds: number): Promise<void>;
+  recordAccess(entry: AccessLogEntry): Promise<void>;
+  queryAccessLog(query: AccessLogQuery): Promise<AccessLogEntry[]>;
+  /** Limits come from the instance's own env (wrangler.toml vars) */
+  quotaExceeded(clientId?: string): Promise<QuotaExceeded | undefined>;
+  chargeQuota(clientId: string | undefined, requests: number): Promise<void>;
+  summary(): Promise<UserDataSummary>;
+  /** Destroy the user's session instances (except `keepSession`) and this instance's storage */
+  eraseUserData(keepSession?: string): Promise<void>;
+}
+
+export function userData(env: Env, userId: number): PolarUserData {
+  const id = env.MCP_OBJECT.idFromName(`user:${userId}`);
+  return env.MCP_OBJECT.get(id) as unknown as PolarUserData;
+}
+
+/** A session instance, by the name agents/mcp gave it (e.g. `streamable-http:<session id>`) */
+export function sessionAgent(env: Env, name: string): { destroy(): Promise<void> } {
+  return env.MCP_OBJECT.get(env.MCP_OBJECT.idFromName(name)) as unknown as { destroy(): Promise<void> };
+}
+
+/**
+ * Revoke every OAuth grant the user gave this server, returning how many.
+ * env.OAUTH_PROVIDER is only injected into requests the OAuthProvider
+ * handles, not into Durable Objects; there the provider's grant and token
+ * records are deleted from KV directly, which is all revokeGrant does.
+ */
+export async function revokeGrants(env: Env, userId: number): Promise<number> {
+  const owner = String(userId);
+  if (env.OAUTH_PROVIDER) {
+    const grants: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await env.OAUTH_PROVIDER.listUserGrants(owner, { cursor });
+      grants.push(...page.items.map((grant) => grant.id));
+      cursor = page.cursor;
+    } while (cursor);
+    for (const grantId of grants) {
+      await env.OAUTH_PROVIDER.revokeGrant(grantId, owner);
+    }
+    return grants.length;
+  }
+
+  await deleteKeys(env.OAUTH_KV, `token:${owner}:`);
+  return deleteKeys(env.OAUTH_KV, `grant:${owner}:`);
+}
+
+async function deleteKeys(kv: KVNamespace, prefix: string): Promise<number> {
+  let deleted = 0;
+  let cursor: string | undefined;
+  do {
+    const page = await kv.list({ prefix, cursor });
+    await Promise.all(page.keys.map((key) => kv.delete(key.name)));
+    deleted += page.keys.length;
+    cursor = page.list_complete ? undefined : page.cursor;
+  } while (cursor);
+  return deleted;
+}
+
+/**
+ * Erase everything the Worker stores about a user: their OAuth grants (and
+ * tokens) in KV, and their per-user and session Durable Object storage.
+ * Deregistering from AccessLink is up to the caller (see src/account.ts).
+ */
+export async function eraseUser(env: Env, userId: number, keepSession?: string): Promise<string[]> {
+  const grants = await revokeGrants(env, userId);
+  await userData(env, userId).eraseUserData(keepSession);
+  return [
+    `Revoked ${grants} authorization${grants === 1 ? "" : "s"} of this server; connected MCP clients must reconnect`,
+    "Erased the stored Polar token, cached tool results, history and MCP session state",
+  ];
+}
+
+/**
+ * History store backed by the user's instance, for a session's tool context
+ */
+export function userHistory(env: Env, userId: number): HistoryStore {
+  const data = userData(env, userId);
+  return {
+    query: (kind, from, to) => data.queryHistory(kind, from, to),
+    upsert: (kind, records) => data.upsertHistory(kind, records),
+  };
+}
+
+/**
+ * Response cache backed by the user's instance, shared by all their sessions
+ */
+export function userCache(env: Env, userId: number): ResponseCache {
+  const data = userData(env, userId);
+  return {
+    get: (key) => data.getCached(key),
+    set: (key, value, ttlSeconds) => data.setCached(key, value, ttlSeconds),
+  };
+}
+
+/**
+ * Access log kept by the user's instance, shared by all their sessions
+ */
+export function userAccessLog(env: Env, userId: number): AccessLog {
+  const data = userData(env, userId);
+  return {
+    record: (entry) => data.recordAccess(entry),
+    query: (query) => data.queryAccessLog(query),
+  };
+}
+
+/**
+ * Quota check of one MCP client of the user, counted in the user's instance
+ */
+export function userQuota(env: Env, userId: number, clientId?: string): QuotaGate {
+  const data = userData(env, userId);
+  return {
+    exceeded: () => data.quotaExceeded(clientId),
+    charge: (requests) => data.chargeQuota(clientId, requests),
+  };
+}
+
+/**
+ * HistoryStore over Durable Object SQLite storage
+ */
+export class SqlHistoryStore implements HistoryStore {
+  constructor(private readonly sql: SqlStorage) {
+    sql.exec(`CREATE TABLE IF NOT EXISTS polar_history (
+      kind TEXT NOT NULL,
+      key TEXT NOT NULL,
+      date TEXT,
+      record TEXT NOT NULL,
+      updated_at INTEGER NOT NULL,
+      PRIMARY KEY (kind, key)
+    )`);
+  }
+
+  async query(kind: HistoryKind, from?: string, to?: string): Promise<HistoryRecord[]> {
+    return this.sql
+      .exec<{ date: string | null; record: string }>(
+        "SELECT date, record FROM polar_history WHERE kind = ? ORDER BY date",
+        kind
+      )
+      .toArray()
+      .filter((row) => inDateRange(row.date ?? undefined, from, to))
+      .map((row) => JSON.parse(row.record) as HistoryRecord);
+  }
+
+  async upsert(kind: HistoryKind, records: HistoryRecord[]): Promise<void> {
+    const { key, date, compact } = HISTORY_KINDS[kind];
+    for (const fetched of records) {
+      const record = compact ? compact(fetched) : fetched;
+      const json = JSON.stringify(record);
+      this.sql.exec(
+        `INSERT INTO polar_history (kind, key, date, record, updated_at) VALUES (?, ?, ?, ?, ?)
+         ON CONFLICT (kind, key) DO UPDATE SET date = excluded.date, record = excluded.record, updated_at = excluded.updated_at`,
+        kind,
+        key(record) ?? json,
+        date(record) ?? null,
+        json,
+        Date.now()
+      );
+    }
+  }
+
+  stats(): { records: number; lastUpdated?: string } {
+    const [row] = this.sql
+      .exec<{ records: number; last: number | null }>(
+        "SELECT COUNT(*) AS records, MAX(updated_at) AS last FROM polar_history"
+      )
+      .toArray();
+    return { records: row.records, lastUpdated: row.last === null ? undefined : new Date(row.last).toISOString() };
+  }
+}
+
+/** Durable Object SQLite rows are limited to 2 MB; larger results are not cached */
+const MAX_CACHED_BYTES = 1_000_000;
+
+/**
+ * ResponseCache over Durable Object SQLite storage
+ */
+export class SqlResponseCache implements ResponseCache {
+  constructor(private readonly sql: SqlStorage) {
+    sql.exec(`CREATE TABLE IF NOT EXISTS polar_cache (
+      key TEXT PRIMARY KEY,
+      value TEXT NOT NULL,
+      expires_at INTEGER NOT NULL
+    )`);
+  }
+
+  async get(key: string): Promise<unknown> {
+    const [row] = this.sql
+      .exec<{ value: string }>("SELECT value FROM polar_cache WHERE key = ? AND expires_at > ?", key, Date.now())
+      .toArray();
+    return row ? JSON.parse(row.value) : undefined;
+  }
+
+  async set(key: string, value: unknown, ttlSeconds: number): Promise<void> {
+    const json = JSON.stringify(value);
+    if (ttlSeconds <= 0 || json === undefined || json.length > MAX_CACHED_BYTES) return;
+    const now = Date.now();
+    this.sql.exec("DELETE FROM polar_cache WHERE expires_at <= ?", now);
+    this.sql.exec(
+      "INSERT OR REPLACE INTO polar_cache (key, value, expires_at) VALUES (?, ?, ?)",
+      key,
+      json,
+      now + ttlSeconds * 1000
+    );
+  }
+
+  /** Unexpired results and their JSON size */
+  stats(): { entries: number; bytes: number } {
+    const [row] = this.sql
+      .exec<{ entries: number; bytes: number | null }>(
+        "SELECT COUNT(*) AS entries, SUM(LENGTH(value)) AS bytes FROM polar_cache WHERE expires_at > ?",
+        Date.now()
+      )
+      .toArray();
+    return { entries: row.entries, bytes: row.bytes ?? 0 };
+  }
+
+  /** Forget everything, e.g. when a webhook announces new data */
+  async clear(): Promise<void> {
+    this.sql.exec("DELETE FROM polar_cache");
+  }
+}
+
+type AccessLogRow = {
+  at: number;
+  client_id: string | null;
+  tool: string;
+  args: string;
+  endpoints: string;
+  status: "ok" | "error";
+  error: string | null;
+  duration_ms: number;
+};
+
+/**
+ * AccessLog over Durable Object SQLite storage. Entries past the retention
+ * period are pruned whenever a new one is recorded.
+ */
+export class SqlAccessLog implements AccessLog {
+  constructor(private readonly sql: SqlStorage) {
+    sql.exec(`CREATE TABLE IF NOT EXISTS polar_access_log (
+      at INTEGER NOT NULL,
+      client_id TEXT,
+      tool TEXT NOT NULL,
+      args TEXT NOT NULL,
+      endpoints TEXT NOT NULL,
+      status TEXT NOT NULL,
+      error TEXT,
+      duration_ms INTEGER NOT NULL
+    )`);
+    sql.exec("CREATE INDEX IF NOT EXISTS polar_access_log_at ON polar_access_log (at)");
+  }
+
+  async record(entry: AccessLogEntry): Promise<void> {
+    this.sql.exec("DELETE FROM polar_access_log WHERE at < ?", accessLogCutoff());
+    this.sql.exec(
+      `INSERT INTO polar_access_log (at, client_id, tool, args, endpoints, status, error, duration_ms)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      Date.parse(entry.at),
+      entry.clientId ?? null,
+      entry.tool,
+      JSON.stringify(entry.args),
+      JSON.stringify(entry.endpoints),
+      entry.status,
+      entry.error ?? null,
+      entry.durationMs
+    );
+  }
+
+  count(): number {
+    const [row] = this.sql.exec<{ entries: number }>("SELECT COUNT(*) AS entries FROM polar_access_log").toArray();
+    return row.entries;
+  }
+
+  async query(query: AccessLogQuery): Promise<AccessLogEntry[]> {
+    const { since, until } = accessLogWindow(query);
+    const limit = Math.min(query.limit ?? ACCESS_LOG_DEFAULT_LIMIT, ACCESS_LOG_MAX_LIMIT);
+    return this.sql
+      .exec<AccessLogRow>(
+        `SELECT * FROM polar_access_log
+         WHERE at >= ? AND at < ? AND (? IS NULL OR tool = ?) AND (? IS NULL OR client_id = ?)
+         ORDER BY at DESC LIMIT ?`,
+        since,
+        until,
+        query.tool ?? null,
+        query.tool ?? null,
+        query.clientId ?? null,
+        query.clientId ?? null,
+        limit
+      )
+      .toArray()
+      .map((row) => ({
+        at: new Date(row.at).toISOString(),
+        clientId: row.client_id ?? undefined,
+        tool: row.tool,
+        args: JSON.parse(row.args) as Record<string, unknown>,
+        endpoints: JSON.parse(row.endpoints) as string[],
+        status: row.status,
+        error: row.error ?? undefined,
+        durationMs: row.duration_ms,
+      }));
+  }
+}
+
+/**
+ * Request counters of the quota windows over Durable Object SQLite storage.
+ * Client limits only apply to grants that know their client ID.
+ */
+export class SqlQuotaCounters {
+  constructor(private readonly sql: SqlStorage) {
+    sql.exec(`CREATE TABLE IF NOT EXISTS polar_quota (
+      counter TEXT NOT NULL,
+      window_start INTEGER NOT NULL,
+      window_end INTEGER NOT NULL,
+      requests INTEGER NOT NULL,
+      PRIMARY KEY (counter, window_start)
+    )`);
+  }
+
+  /** The limit that is spent, with the latest reset when several are */
+  exceeded(limits: QuotaLimit[], clientId?: string, now = Date.now()): QuotaExceeded | undefined {
+    let blocking: { limit: QuotaLimit; retryAt: number } | undefined;
+    for (const limit of limits) {
+      const counter = quotaCounter(limit, clientId);
+      if (!counter) continue;
+      const windowStart = quotaWindowStart(limit, now);
+      const [row] = this.sql
+        .exec<{ requests: number }>(
+          "SELECT requests FROM polar_quota WHERE counter = ? AND window_start = ?",
+          counter,
+          windowStart
+        )
+        .toArray();
+      const retryAt = windowStart + limit.windowSeconds * 1000;
+      if (row && row.requests >= limit.requests && (!blocking || retryAt > blocking.retryAt)) {
+        blocking = { limit, retryAt };
+      }
+    }
+    return blocking && { limit: blocking.limit, retryAt: new Date(blocking.retryAt).toISOString() };
+  }
+
+  charge(limits: QuotaLimit[], clientId: string | undefined, requests: number, now = Date.now()): void {
+    this.sql.exec("DELETE FROM polar_quota WHERE window_end <= ?", now);
+    for (const limit of limits) {
+      const counter = quotaCounter(limit, clientId);
+      if (!counter) continue;
+      const windowStart = quotaWindowStart(limit, now);
+      this.sql.exec(
+        `INSERT INTO polar_quota (counter, window_start, window_end, requests) VALUES (?, ?, ?, ?)
+         ON CONFLICT (counter, window_start) DO UPDATE SET requests = requests + excluded.requests`,
+        counter,
+        windowStart,
+        windowStart + limit.windowSeconds * 1000,
+        requests
+      );
+    }
+  }
+}
+
+function quotaCounter(limit: QuotaLimit, clientId?: string): string | undefined {
+  if (limit.scope === "user") return `user:${limit.windowSeconds}`;
+  return clientId ? `client:${clientId}:${limit.windowSeconds}` : undefined;
+}
@@ -0,0 +1,222 @@
+#!/usr/bin/env node
+
+/**
+ * Polar AccessLink Webhook Helper
+ *
+ * Manages the client's AccessLink webhook subscription with the client's
+ * Basic credentials, and sends signed fixtures to a running Worker so
+ * `/webhook` can be exercised under `wrangler dev`.
+ *
+ * Usage:
+ *   npm run webhooks -- show
+ *   npm run webhooks -- create --url <url> [--events EXERCISE,SLEEP,...] [--store-secret]
+ *   npm run webhooks -- update [--url <url>] [--events ...]
+ *   npm run webhooks -- activate | deactivate | delete
+ *   npm run webhooks -- rotate [--store-secret]
+ *   npm run webhooks -- send fixtures/webhooks/exercise.json [more.json ...] [--url <webhook url>]
+ *
+ * Management commands need POLAR_CLIENT_ID and POLAR_CLIENT_SECRET.
+ * `--store-secret` saves the new signature secret as the Worker's
+ * POLAR_WEBHOOK_SECRET via `wrangler secret put`.
+ *
+ * The fixtures use user_id 12345678; change it to a Polar user that has
+ * connected through your dev Worker. For `send`, POLAR_WEBHOOK_SECRET must
+ * match the Worker's (`.dev.vars` under `wrangler dev`).
+ */
+
+import { spawn } from "node:child_process";
+import { readFile } from "node:fs/promises";
+import { PolarWebhookClient } from "./polar-client.js";
+import type { WebhookInfo } from "./polar-models.js";
+import { rotateWebhook, signWebhookPayload, WEBHOOK_EVENT_TYPES, WEBHOOK_SIGNATURE_HEADER } from "./webhooks.js";
+
+const DEFAULT_WEBHOOK_URL = "http://localhost:8787/webhook";
+
+function usage(): never {
+  console.error("Usage: npm run webhooks -- <command> [options]");
+  console.error("");
+  console.error("Commands:");
+  console.error("  show                                         Show the webhook subscription");
+  console.error("  create --url <url> [--events A,B] [--store-secret]");
+  console.error("  update [--url <url>] [--events A,B]");
+  console.error("  activate | deactivate | delete");
+  console.error("  rotate [--store-secret]                      Recreate the webhook to get a new secret");
+  console.error("  send <fixture.json> [...] [--url <url>]      POST signed fixtures to a Worker");
+  console.error("");
+  console.error(`Events: ${WEBHOOK_EVENT_TYPES.join(", ")}`);
+  process.exit(1);
+}
+
+/**
+ * Split `--name value` options and `--flag` switches from positional arguments
+ */
+function parseArgs(args: string[]): { positional: string[]; options: Record<string, string | true> } {
+  const positional: string[] = [];
+  const options: Record<string, string | true> = {};
+  for (let i = 0; i < args.length; i++) {
+    if (!args[i].startsWith("--")) {
+      positional.push(args[i]);
+      continue;
+    }
+    const name = args[i].slice(2);
+    const value = args[i + 1];
+    if (value !== undefined && !value.startsWith("--")) {
+      options[name] = value;
+      i++;
+    } else {
+      options[name] = true;
+    }
+  }
+  return { positional, options };
+}
+
+function stringOption(options: Record<string, string | true>, name: string): string | undefined {
+  const value = options[name];
+  if (value === true) {
+    console.error(`Error: --${name} needs a value`);
+    process.exit(1);
+  }
+  return value;
+}
+
+function eventsOption(options: Record<string, string | true>): string[] | undefined {
+  return stringOption(options, "events")
+    ?.split(",")
+    .map((event) => event.trim().toUpperCase())
+    .filter(Boolean);
+}
+
+function requireEnv(name: string, hint: string): string {
+  const value = process.env[name];
+  if (!value) {
+    console.error(`Error: Please set ${name} (${hint})`);
+    process.exit(1);
+  }
+  return value;
+}
+
+function webhookClient(): PolarWebhookClient {
+  const hint = "from https://admin.polaraccesslink.com/";
+  return new PolarWebhookClient(requireEnv("POLAR_CLIENT_ID", hint), requireEnv("POLAR_CLIENT_SECRET", hint));
+}
+
+function printWebhook(webhook: WebhookInfo): void {
+  console.log(`Webhook ${webhook.id}`);
+  console.log(`  URL:    ${webhook.url}`);
+  console.log(`  Events: ${webhook.events.join(", ")}`);
+  if (webhook.active !== undefined && webhook.active !== null) {
+    console.log(`  Active: ${webhook.active ? "yes" : "no"}`);
+  }
+}
+
+/**
+ * Save the secret as the Worker secret, piping it to wrangler so it never
+ * appears in the process list or shell history
+ */
+function storeWorkerSecret(secret: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const child = spawn("npx", ["wrangler", "secret", "put", "POLAR_WEBHOOK_SECRET"], {
+      stdio: ["pipe", "inherit", "inherit"],
+    });
+    child.on("error", reject);
+    child.on("exit", (code) =>
+      code === 0 ? resolve() : reject(new Error(`wrangler secret put exited with code ${code}`))
+    );
+    child.stdin.end(secret);
+  });
+}
+
+async function handleSecret(webhook: WebhookInfo, store: boolean): Promise<void> {
+  const secret = webhook.signature_secret_key;
+  if (!secret) {
+    console.log("AccessLink did not return a signature secret.");
+    return;
+  }
+  if (store) {
+    await storeWorkerSecret(secret);
+    console.log("Stored the signature secret as the Worker secret POLAR_WEBHOOK_SECRET.");
+    return;
+  }
+  console.log("");
+  console.log("Signature secret (shown only once):");
+  console.log(`  ${secret}`);
+  console.log("");
+  console.log("Store it for the Worker with:");
+  console.log("  npx wrangler secret put POLAR_WEBHOOK_SECRET");
+}
+
+async function send(files: string[], url: string): Promise<void> {
+  if (files.length === 0) usage();
+  const secret = requireEnv("POLAR_WEBHOOK_SECRET", "the Worker's webhook signature secret");
+  for (const file of files) {
+    const body = await readFile(file, "utf8");
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        [WEBHOOK_SIGNATURE_HEADER]: await signWebhookPayload(secret, body),
+      },
+      body,
+    });
+    console.log(`${file}: ${response.status} ${await response.text()}`);
+  }
+}
+
+async function main() {
+  const [command, ...rest] = process.argv.slice(2);
+  const { positional, options } = parseArgs(rest);
+  const storeSecret = options["store-secret"] === true;
+
+  try {
+    switch (command) {
+      case "show":
+        printWebhook(await webhookClient().get());
+        break;
+      case "create": {
+        const url = stringOption(options, "url");
+        if (!url) usage();
+        const webhook = await webhookClient().create(url, eventsOption(options) ?? WEBHOOK_EVENT_TYPES);
+        printWebhook(webhook);
+        await handleSecret(webhook, storeSecret);
+        break;
+      }
+      case "update": {
+        const client = webhookClient();
+        const { id } = await client.get();
+        printWebhook(await client.update(id, { url: stringOption(options, "url"), events: eventsOption(options) }));
+        break;
+      }
+      case "activate":
+        await webhookClient().activate();
+        console.log("Webhook activated.");
+        break;
+      case "deactivate":
+        await webhookClient().deactivate();
+        console.log("Webhook deactivated.");
+        break;
+      case "delete": {
+        const client = webhookClient();
+        const { id } = await client.get();
+        await client.delete(id);
+        console.log(`Webhook ${id} deleted.`);
+        break;
+      }
+      case "rotate": {
+        const webhook = await rotateWebhook(webhookClient());
+        printWebhook(webhook);
+        await handleSecret(webhook, storeSecret);
+        break;
+      }
+      case "send":
+        await send(positional, stringOption(options, "url") ?? DEFAULT_WEBHOOK_URL);
+        break;
+      default:
+        usage();
+    }
+  } catch (error) {
+    console.error("Error:", error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
+
+main();
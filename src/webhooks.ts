@@ -0,0 +1,131 @@
+/**
+ * AccessLink Webhooks
+ * Signature verification, event-to-resource mapping and subscription
+ * rotation shared by the Worker (`/webhook`, `/admin/webhook`) and the
+ * webhook CLI.
+ */
+
+import type { PolarClient, PolarWebhookClient } from "./polar-client.js";
+import type { HistoryKind, HistoryRecord } from "./history.js";
+import type { WebhookEvent, WebhookInfo } from "./polar-models.js";
+
+export const WEBHOOK_SIGNATURE_HEADER = "Polar-Webhook-Signature";
+
+const encoder = new TextEncoder();
+
+function toHex(buffer: ArrayBuffer): string {
+  return [...new Uint8Array(buffer)].map((byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Hex HMAC-SHA256 of the raw request body, as sent in Polar-Webhook-Signature
+ */
+export async function signWebhookPayload(secret: string, body: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  return toHex(await crypto.subtle.sign("HMAC", key, encoder.encode(body)));
+}
+
+/**
+ * Compare two strings without leaking where they differ
+ */
+export function constantTimeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let difference = 0;
+  for (let i = 0; i < a.length; i++) {
+    difference |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return difference === 0;
+}
+
+/**
+ * Check a Polar-Webhook-Signature header against any of the accepted
+ * secrets (more than one while a rotation is in flight)
+ */
+export async function verifyWebhookSignature(
+  secrets: string | string[],
+  body: string,
+  signature: string | null | undefined
+): Promise<boolean> {
+  if (!signature) return false;
+  const received = signature.trim().toLowerCase();
+  for (const secret of Array.isArray(secrets) ? secrets : [secrets]) {
+    if (constantTimeEqual(await signWebhookPayload(secret, body), received)) return true;
+  }
+  return false;
+}
+
+/**
+ * Replace the webhook with an identical one to get a new signature secret.
+ * AccessLink has no rotate call, and only returns the secret on creation.
+ */
+export async function rotateWebhook(client: PolarWebhookClient): Promise<WebhookInfo> {
+  const current = await client.get();
+  await client.delete(current.id);
+  try {
+    return await client.create(current.url, current.events);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(
+      `Deleted webhook ${current.id} but could not recreate it (url ${current.url}, events ${current.events.join(",")}): ${message}`
+    );
+  }
+}
+
+interface WebhookResource {
+  kind: HistoryKind;
+  records: HistoryRecord[];
+}
+
+type ResourceFetcher = (client: PolarClient, event: WebhookEvent) => Promise<WebhookResource>;
+
+function requireField(event: WebhookEvent, field: "entity_id" | "date"): string {
+  const value = event[field];
+  if (!value) throw new Error(`${event.event} webhook event has no ${field}`);
+  return value;
+}
+
+/** What to fetch for each event type; events not listed here are acknowledged and ignored */
+const WEBHOOK_RESOURCES: Record<string, ResourceFetcher> = {
+  EXERCISE: async (client, event) => ({
+    kind: "exercises",
+    records: [await client.getExercise(requireField(event, "entity_id"))],
+  }),
+  SLEEP: async (client, event) => ({
+    kind: "sleep",
+    records: [await client.getSleep(requireField(event, "date"))],
+  }),
+  ACTIVITY_SUMMARY: async (client, event) => ({
+    kind: "daily-activity",
+    records: [await client.getDailyActivity(requireField(event, "date"))],
+  }),
+  CONTINUOUS_HEART_RATE: async (client, event) => ({
+    kind: "continuous-heart-rate",
+    records: [await client.getContinuousHeartRate(requireField(event, "date"))],
+  }),
+  SLEEP_WISE_ALERTNESS: async (client, event) => {
+    const date = requireField(event, "date");
+    return { kind: "sleepwise-alertness", records: await client.getSleepWiseAlertness({ from: date, to: date }) };
+  },
+  SLEEP_WISE_CIRCADIAN_BEDTIME: async (client, event) => {
+    const date = requireField(event, "date");
+    return { kind: "sleepwise-bedtime", records: await client.getSleepWiseCircadianBedtime({ from: date, to: date }) };
+  },
+};
+
+export const WEBHOOK_EVENT_TYPES = Object.keys(WEBHOOK_RESOURCES);
+
+/**
+ * Fetch the resource an event refers to, or undefined for events we do not store
+ */
+export function fetchWebhookResource(
+  client: PolarClient,
+  event: WebhookEvent
+): Promise<WebhookResource> | undefined {
+  return WEBHOOK_RESOURCES[event.event]?.(client, event);
+}
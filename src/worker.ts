@@ -8,643 +8,221 @@
 /// <reference types="@cloudflare/workers-types" />
 
 import OAuthProvider from "@cloudflare/workers-oauth-provider";
+import { env } from "cloudflare:workers";
 import { McpAgent } from "agents/mcp";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { z } from "zod";
-import { polarApiRequest } from "./polar-api.js";
+import { registerPolarTools } from "./tools.js";
+import type { PolarToolContext } from "./tools.js";
+import { registerPolarResources } from "./resources.js";
+import { registerPolarPrompts } from "./prompts.js";
 import { PolarHandler } from "./auth/polar-handler.js";
+import { PolarClient } from "./polar-client.js";
+import { PolarNoDataError } from "./errors.js";
+import { fetchWebhookResource } from "./webhooks.js";
+import { propsAccessToken, resealProps } from "./token-encryption.js";
+import {
+  eraseUser,
+  sessionAgent,
+  SqlAccessLog,
+  SqlHistoryStore,
+  SqlQuotaCounters,
+  SqlResponseCache,
+  userAccessLog,
+  userCache,
+  userData,
+  userHistory,
+  userQuota,
+} from "./user-data.js";
+import type { PolarUserData, UserDataSummary } from "./user-data.js";
+import type { ElicitResult } from "@modelcontextprotocol/sdk/types.js";
+import type { AccessLogEntry, AccessLogQuery } from "./access-log.js";
+import { quotaLimits } from "./quota.js";
+import type { QuotaExceeded } from "./quota.js";
+import type { HistoryKind, HistoryRecord } from "./history.js";
+import type { WebhookEvent } from "./polar-models.js";
 import type { Env, Props } from "./types.js";
 
 export { Env, Props };
 
-export class MyMCP extends McpAgent<Env, Record<string, never>, Props> {
+export class MyMCP extends McpAgent<Env, Record<string, never>, Props> implements PolarUserData {
   server = new McpServer({
     name: "Polar AccessLink",
     version: "1.0.0",
   });
 
-  async init() {
-    const accessToken = this.props.accessToken;
-
-    // Tool: Get User Info
-    this.server.tool(
-      "get_user_info",
-      "Get information about the registered Polar user including name, weight, height, birthdate, and other profile data",
-      {},
-      async () => {
-        try {
-          const result = await polarApiRequest("/users/me", accessToken);
-          return {
-            content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
-          };
-        } catch (error) {
-          return {
-            content: [{ type: "text" as const, text: `Error: ${error instanceof Error ? error.message : String(error)}` }],
-            isError: true,
-          };
-        }
-      }
-    );
+  private historyStore?: SqlHistoryStore;
+  private responseCache?: SqlResponseCache;
+  private accessLogStore?: SqlAccessLog;
+  private quotaCounters?: SqlQuotaCounters;
 
-    // Tool: Get Exercises
-    this.server.tool(
-      "get_exercises",
-      "Get exercise data from Polar. Returns exercises from the last 30 days. Can include detailed samples and training zones.",
-      {
-        samples: z.boolean().optional().describe("Include detailed sample data (heart rate, speed, etc.)"),
-        zones: z.boolean().optional().describe("Include heart rate zone information"),
-      },
-      async ({ samples, zones }) => {
-        try {
-          const params = new URLSearchParams();
-          if (samples) params.append("samples", "true");
-          if (zones) params.append("zones", "true");
-          const queryString = params.toString();
-          const endpoint = `/exercises${queryString ? `?${queryString}` : ""}`;
-          const result = await polarApiRequest(endpoint, accessToken);
-          return {
-            content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
-          };
-        } catch (error) {
-          return {
-            content: [{ type: "text" as const, text: `Error: ${error instanceof Error ? error.message : String(error)}` }],
-            isError: true,
-          };
-        }
-      }
-    );
-
-    // Tool: Get Single Exercise
-    this.server.tool(
-      "get_exercise",
-      "Get detailed data for a specific exercise by ID.",
-      {
-        exerciseId: z.string().describe("The exercise ID to retrieve"),
-        samples: z.boolean().optional().describe("Include detailed sample data"),
-        zones: z.boolean().optional().describe("Include heart rate zone information"),
-      },
-      async ({ exerciseId, samples, zones }) => {
-        try {
-          const params = new URLSearchParams();
-          if (samples) params.append("samples", "true");
-          if (zones) params.append("zones", "true");
-          const queryString = params.toString();
-          const endpoint = `/exercises/${exerciseId}${queryString ? `?${queryString}` : ""}`;
-          const result = await polarApiRequest(endpoint, accessToken);
-          return {
-            content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
-          };
-        } catch (error) {
-          return {
-            content: [{ type: "text" as const, text: `Error: ${error instanceof Error ? error.message : String(error)}` }],
-            isError: true,
-          };
-        }
-      }
-    );
-
-    // Tool: Get Nightly Recharge
-    this.server.tool(
-      "get_nightly_recharge",
-      "Get Nightly Recharge data: ANS charge, HRV, breathing rate, recovery status. Data from the last 28 days.",
-      {
-        date: z.string().optional().describe("Date in YYYY-MM-DD format"),
-      },
-      async ({ date }) => {
-        try {
-          let endpoint = "/users/nightly-recharge";
-          if (date) endpoint = `/users/nightly-recharge/${date}`;
-          const result = await polarApiRequest(endpoint, accessToken);
-          return {
-            content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
-          };
-        } catch (error) {
-          return {
-            content: [{ type: "text" as const, text: `Error: ${error instanceof Error ? error.message : String(error)}` }],
-            isError: true,
-          };
-        }
-      }
-    );
-
-    // Tool: Get Sleep
-    this.server.tool(
-      "get_sleep",
-      "Get sleep tracking data: sleep stages, sleep score, duration, interruptions.",
-      {
-        date: z.string().optional().describe("Date in YYYY-MM-DD format"),
-      },
-      async ({ date }) => {
-        try {
-          let endpoint = "/users/sleep";
-          if (date) endpoint = `/users/sleep/${date}`;
-          const result = await polarApiRequest(endpoint, accessToken);
-          return {
-            content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
-          };
-        } catch (error) {
-          return {
-            content: [{ type: "text" as const, text: `Error: ${error instanceof Error ? error.message : String(error)}` }],
-            isError: true,
-          };
-        }
-      }
-    );
-
-    // Tool: Get Daily Activity
-    this.server.tool(
-      "get_daily_activity",
-      "Get daily activity: steps, calories, active time, activity goals.",
-      {
-        date: z.string().optional().describe("Date in YYYY-MM-DD format"),
-      },
-      async ({ date }) => {
-        try {
-          let endpoint = "/users/activities";
-          if (date) endpoint = `/users/activities/${date}`;
-          const result = await polarApiRequest(endpoint, accessToken);
-          return {
-            content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
-          };
-        } catch (error) {
-          return {
-            content: [{ type: "text" as const, text: `Error: ${error instanceof Error ? error.message : String(error)}` }],
-            isError: true,
-          };
-        }
-      }
-    );
-
-    // Tool: Get Physical Info
-    this.server.tool(
-      "get_physical_info",
-      "Get physical info: weight, height, max heart rate, resting HR, VO2max.",
-      {},
-      async () => {
-        try {
-          const result = await polarApiRequest("/users/physical-information", accessToken);
-          return {
-            content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
-          };
-        } catch (error) {
-          return {
-            content: [{ type: "text" as const, text: `Error: ${error instanceof Error ? error.message : String(error)}` }],
-            isError: true,
-          };
-        }
-      }
-    );
+  async init() {
+    const props = this.props;
+    if (!props) {
+      throw new Error("MCP session started without OAuth props");
+    }
+    const { userId, categories, clientId } = props;
+
+    // Grants from before encryption or the last key rotation are stored
+    // sealed with the current key from now on
+    const resealed = await resealProps(this.env, props);
+    if (resealed) await this.updateProps(resealed);
+    const current = resealed ?? props;
+    const accessToken = await propsAccessToken(this.env, current);
+
+    // Keep the per-user instance's token current for webhook fetches
+    await userData(this.env, userId).saveCredentials(current, this.name);
+
+    const context: PolarToolContext = {
+      getAccessToken: () => accessToken,
+      reauthorizeHint:
+        "Reconnect the Polar MCP server in the client to run the /authorize flow again.",
+      // Only tools for the data the user granted on the approval dialog
+      categories,
+      history: userHistory(this.env, userId),
+      cache: userCache(this.env, userId),
+      accessLog: userAccessLog(this.env, userId),
+      clientId,
+      quota: userQuota(this.env, userId, clientId),
+      elicit: (params) => this.elicitInput(params) as Promise<ElicitResult>,
+      eraseUserData: async () => {
+        const erased = await eraseUser(this.env, userId, this.name);
+        // This session is still answering the tool call; destroy it once that is sent
+        await this.schedule(5, "destroy");
+        return erased;
+      },
+    };
+    registerPolarTools(this.server, context);
+    registerPolarResources(this.server, context);
+    registerPolarPrompts(this.server, context);
+  }
 
-    // Tool: Get Continuous Heart Rate
-    this.server.tool(
-      "get_continuous_heart_rate",
-      "Get continuous heart rate data (5-min intervals) for a specific date.",
-      {
-        date: z.string().describe("Date (YYYY-MM-DD format). Required."),
-      },
-      async ({ date }) => {
-        try {
-          const result = await polarApiRequest(`/users/continuous-heart-rate/${date}`, accessToken);
-          return {
-            content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
-          };
-        } catch (error) {
-          return {
-            content: [{ type: "text" as const, text: `Error: ${error instanceof Error ? error.message : String(error)}` }],
-            isError: true,
-          };
-        }
-      }
-    );
+  // Per-user instance (`user:<polar user id>`), see src/user-data.ts ---------
 
-    // Tool: Get Continuous Heart Rate Range
-    this.server.tool(
-      "get_continuous_heart_rate_range",
-      "Get continuous heart rate data for a date range.",
-      {
-        from: z.string().describe("Start date (YYYY-MM-DD). Required."),
-        to: z.string().describe("End date (YYYY-MM-DD). Required."),
-      },
-      async ({ from, to }) => {
-        try {
-          const params = new URLSearchParams({ from, to });
-          const result = await polarApiRequest(`/users/continuous-heart-rate?${params.toString()}`, accessToken);
-          return {
-            content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
-          };
-        } catch (error) {
-          return {
-            content: [{ type: "text" as const, text: `Error: ${error instanceof Error ? error.message : String(error)}` }],
-            isError: true,
-          };
-        }
-      }
-    );
+  private get history(): SqlHistoryStore {
+    this.historyStore ??= new SqlHistoryStore(this.ctx.storage.sql);
+    return this.historyStore;
+  }
 
-    // Tool: Get Cardio Load
-    this.server.tool(
-      "get_cardio_load",
-      "Get cardio load (TRIMP) data: acute load, chronic load, load status.",
-      {
-        date: z.string().optional().describe("Date (YYYY-MM-DD). Optional."),
-      },
-      async ({ date }) => {
-        try {
-          const endpoint = date ? `/users/cardio-load/${date}` : "/users/cardio-load";
-          const result = await polarApiRequest(endpoint, accessToken);
-          return {
-            content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
-          };
-        } catch (error) {
-          return {
-            content: [{ type: "text" as const, text: `Error: ${error instanceof Error ? error.message : String(error)}` }],
-            isError: true,
-          };
-        }
-      }
-    );
+  /** MCP session instances this user has opened, so erasure can destroy them */
+  private sessionTable(): void {
+    this.ctx.storage.sql.exec("CREATE TABLE IF NOT EXISTS polar_sessions (name TEXT PRIMARY KEY)");
+  }
 
-    // Tool: Get Cardio Load Range
-    this.server.tool(
-      "get_cardio_load_range",
-      "Get cardio load data for a date range.",
-      {
-        from: z.string().describe("Start date (YYYY-MM-DD). Required."),
-        to: z.string().describe("End date (YYYY-MM-DD). Required."),
-      },
-      async ({ from, to }) => {
-        try {
-          const params = new URLSearchParams({ from, to });
-          const result = await polarApiRequest(`/users/cardio-load/date?${params.toString()}`, accessToken);
-          return {
-            content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
-          };
-        } catch (error) {
-          return {
-            content: [{ type: "text" as const, text: `Error: ${error instanceof Error ? error.message : String(error)}` }],
-            isError: true,
-          };
-        }
-      }
-    );
+  private get cache(): SqlResponseCache {
+    this.responseCache ??= new SqlResponseCache(this.ctx.storage.sql);
+    return this.responseCache;
+  }
 
-    // Tool: Get Cardio Load History
-    this.server.tool(
-      "get_cardio_load_history",
-      "Get historical cardio load aggregated by days or months.",
-      {
-        period_type: z.enum(["days", "months"]).describe("'days' or 'months'. Required."),
-        count: z.number().describe("Number of periods. Required."),
-      },
-      async ({ period_type, count }) => {
-        try {
-          const result = await polarApiRequest(`/users/cardio-load/period/${period_type}/${count}`, accessToken);
-          return {
-            content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
-          };
-        } catch (error) {
-          return {
-            content: [{ type: "text" as const, text: `Error: ${error instanceof Error ? error.message : String(error)}` }],
-            isError: true,
-          };
-        }
-      }
-    );
+  private get accessLog(): SqlAccessLog {
+    this.accessLogStore ??= new SqlAccessLog(this.ctx.storage.sql);
+    return this.accessLogStore;
+  }
 
-    // Tool: Get Activity Samples
-    this.server.tool(
-      "get_activity_samples",
-      "Get detailed activity samples: step counts and activity zones throughout the day.",
-      {
-        date: z.string().optional().describe("Date (YYYY-MM-DD). Optional."),
-      },
-      async ({ date }) => {
-        try {
-          const endpoint = date ? `/users/activities/samples/${date}` : "/users/activities/samples";
-          const result = await polarApiRequest(endpoint, accessToken);
-          return {
-            content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
-          };
-        } catch (error) {
-          return {
-            content: [{ type: "text" as const, text: `Error: ${error instanceof Error ? error.message : String(error)}` }],
-            isError: true,
-          };
-        }
-      }
-    );
+  private get quota(): SqlQuotaCounters {
+    this.quotaCounters ??= new SqlQuotaCounters(this.ctx.storage.sql);
+    return this.quotaCounters;
+  }
 
-    // Tool: Get Activity Samples Range
-    this.server.tool(
-      "get_activity_samples_range",
-      "Get activity samples for a date range (max 28 days).",
-      {
-        from: z.string().describe("Start date (YYYY-MM-DD). Required."),
-        to: z.string().describe("End date (YYYY-MM-DD). Required."),
-      },
-      async ({ from, to }) => {
-        try {
-          const params = new URLSearchParams({ from, to });
-          const result = await polarApiRequest(`/users/activities/samples?${params.toString()}`, accessToken);
-          return {
-            content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
-          };
-        } catch (error) {
-          return {
-            content: [{ type: "text" as const, text: `Error: ${error instanceof Error ? error.message : String(error)}` }],
-            isError: true,
-          };
-        }
-      }
-    );
+  async saveCredentials(props: Props, session?: string): Promise<void> {
+    await this.ctx.storage.put("polar_credentials", props);
+    if (session) {
+      this.sessionTable();
+      this.ctx.storage.sql.exec("INSERT OR IGNORE INTO polar_sessions (name) VALUES (?)", session);
+    }
+  }
 
-    // Tool: Get SleepWise Alertness
-    this.server.tool(
-      "get_sleepwise_alertness",
-      "Get SleepWise alertness predictions based on sleep patterns.",
-      {
-        from: z.string().optional().describe("Start date (YYYY-MM-DD). Optional."),
-        to: z.string().optional().describe("End date (YYYY-MM-DD). Optional."),
-      },
-      async ({ from, to }) => {
-        try {
-          let endpoint = "/users/sleepwise/alertness";
-          if (from || to) {
-            const params = new URLSearchParams();
-            if (from) params.append("from", from);
-            if (to) params.append("to", to);
-            endpoint = `/users/sleepwise/alertness/date?${params.toString()}`;
-          }
-          const result = await polarApiRequest(endpoint, accessToken);
-          return {
-            content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
-          };
-        } catch (error) {
-          return {
-            content: [{ type: "text" as const, text: `Error: ${error instanceof Error ? error.message : String(error)}` }],
-            isError: true,
-          };
-        }
-      }
-    );
+  /**
+   * Fetch the resource a webhook event refers to and store it in history
+   */
+  async handleWebhookEvent(event: WebhookEvent): Promise<void> {
+    const credentials = await this.ctx.storage.get<Props>("polar_credentials");
+    if (!credentials) {
+      console.warn(`No Polar credentials stored for user ${event.user_id}; ignoring ${event.event} event`);
+      return;
+    }
+
+    const resealed = await resealProps(this.env, credentials);
+    if (resealed) await this.ctx.storage.put("polar_credentials", resealed);
+
+    try {
+      const accessToken = await propsAccessToken(this.env, resealed ?? credentials);
+      const resource = await fetchWebhookResource(new PolarClient(accessToken), event);
+      if (resource) {
+        await this.history.upsert(resource.kind, resource.records);
+        // Lists and ranges cached before this event no longer include it
+        await this.cache.clear();
+      }
+    } catch (error) {
+      // Deleted or not yet processed on Polar's side; nothing to store
+      if (error instanceof PolarNoDataError) return;
+      throw error;
+    }
+  }
 
-    // Tool: Get SleepWise Circadian Bedtime
-    this.server.tool(
-      "get_sleepwise_circadian_bedtime",
-      "Get optimal bedtime recommendations based on circadian rhythm.",
-      {
-        from: z.string().optional().describe("Start date (YYYY-MM-DD). Optional."),
-        to: z.string().optional().describe("End date (YYYY-MM-DD). Optional."),
-      },
-      async ({ from, to }) => {
-        try {
-          let endpoint = "/users/sleepwise/circadian-bedtime";
-          if (from || to) {
-            const params = new URLSearchParams();
-            if (from) params.append("from", from);
-            if (to) params.append("to", to);
-            endpoint = `/users/sleepwise/circadian-bedtime/date?${params.toString()}`;
-          }
-          const result = await polarApiRequest(endpoint, accessToken);
-          return {
-            content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
-          };
-        } catch (error) {
-          return {
-            content: [{ type: "text" as const, text: `Error: ${error instanceof Error ? error.message : String(error)}` }],
-            isError: true,
-          };
-        }
-      }
-    );
+  async queryHistory(kind: HistoryKind, from?: string, to?: string): Promise<HistoryRecord[]> {
+    return this.history.query(kind, from, to);
+  }
 
-    // Tool: Get Body Temperature
-    this.server.tool(
-      "get_body_temperature",
-      "Get body temperature data from Elixir biosensing.",
-      {
-        from: z.string().optional().describe("Start date (YYYY-MM-DD). Optional."),
-        to: z.string().optional().describe("End date (YYYY-MM-DD). Optional."),
-      },
-      async ({ from, to }) => {
-        try {
-          let endpoint = "/users/biosensing/bodytemperature";
-          if (from || to) {
-            const params = new URLSearchParams();
-            if (from) params.append("from", from);
-            if (to) params.append("to", to);
-            endpoint = `${endpoint}?${params.toString()}`;
-          }
-          const result = await polarApiRequest(endpoint, accessToken);
-          return {
-            content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
-          };
-        } catch (error) {
-          return {
-            content: [{ type: "text" as const, text: `Error: ${error instanceof Error ? error.message : String(error)}` }],
-            isError: true,
-          };
-        }
-      }
-    );
+  async upsertHistory(kind: HistoryKind, records: HistoryRecord[]): Promise<void> {
+    await this.history.upsert(kind, records);
+  }
 
-    // Tool: Get Skin Temperature
-    this.server.tool(
-      "get_skin_temperature",
-      "Get sleep skin temperature data from Elixir biosensing.",
-      {
-        from: z.string().optional().describe("Start date (YYYY-MM-DD). Optional."),
-        to: z.string().optional().describe("End date (YYYY-MM-DD). Optional."),
-      },
-      async ({ from, to }) => {
-        try {
-          let endpoint = "/users/biosensing/skintemperature";
-          if (from || to) {
-            const params = new URLSearchParams();
-            if (from) params.append("from", from);
-            if (to) params.append("to", to);
-            endpoint = `${endpoint}?${params.toString()}`;
-          }
-          const result = await polarApiRequest(endpoint, accessToken);
-          return {
-            content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
-          };
-        } catch (error) {
-          return {
-            content: [{ type: "text" as const, text: `Error: ${error instanceof Error ? error.message : String(error)}` }],
-            isError: true,
-          };
-        }
-      }
-    );
+  async getCached(key: string): Promise<unknown> {
+    return this.cache.get(key);
+  }
 
-    // Tool: Get SpO2
-    this.server.tool(
-      "get_spo2",
-      "Get SpO2 (blood oxygen) test results from Elixir biosensing.",
-      {
-        from: z.string().optional().describe("Start date (YYYY-MM-DD). Optional."),
-        to: z.string().optional().describe("End date (YYYY-MM-DD). Optional."),
-      },
-      async ({ from, to }) => {
-        try {
-          let endpoint = "/users/biosensing/spo2";
-          if (from || to) {
-            const params = new URLSearchParams();
-            if (from) params.append("from", from);
-            if (to) params.append("to", to);
-            endpoint = `${endpoint}?${params.toString()}`;
-          }
-          const result = await polarApiRequest(endpoint, accessToken);
-          return {
-            content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
-          };
-        } catch (error) {
-          return {
-            content: [{ type: "text" as const, text: `Error: ${error instanceof Error ? error.message : String(error)}` }],
-            isError: true,
-          };
-        }
-      }
-    );
+  async setCached(key: string, value: unknown, ttlSeconds: number): Promise<void> {
+    await this.cache.set(key, value, ttlSeconds);
+  }
 
-    // Tool: Get Exercise FIT
-    this.server.tool(
-      "get_exercise_fit",
-      "Download exercise in FIT format.",
-      {
-        exerciseId: z.string().describe("Exercise ID. Required."),
-      },
-      async ({ exerciseId }) => {
-        try {
-          const result = await polarApiRequest(`/exercises/${exerciseId}/fit`, accessToken);
-          return {
-            content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
-          };
-        } catch (error) {
-          return {
-            content: [{ type: "text" as const, text: `Error: ${error instanceof Error ? error.message : String(error)}` }],
-            isError: true,
-          };
-        }
-      }
-    );
+  async recordAccess(entry: AccessLogEntry): Promise<void> {
+    await this.accessLog.record(entry);
+  }
 
-    // Tool: Get Exercise TCX
-    this.server.tool(
-      "get_exercise_tcx",
-      "Download exercise in TCX format.",
-      {
-        exerciseId: z.string().describe("Exercise ID. Required."),
-      },
-      async ({ exerciseId }) => {
-        try {
-          const result = await polarApiRequest(`/exercises/${exerciseId}/tcx`, accessToken);
-          return {
-            content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
-          };
-        } catch (error) {
-          return {
-            content: [{ type: "text" as const, text: `Error: ${error instanceof Error ? error.message : String(error)}` }],
-            isError: true,
-          };
-        }
-      }
-    );
+  async queryAccessLog(query: AccessLogQuery): Promise<AccessLogEntry[]> {
+    return this.accessLog.query(query);
+  }
 
-    // Tool: Get Exercise GPX
-    this.server.tool(
-      "get_exercise_gpx",
-      "Download exercise GPS route in GPX format.",
-      {
-        exerciseId: z.string().describe("Exercise ID. Required."),
-      },
-      async ({ exerciseId }) => {
-        try {
-          const result = await polarApiRequest(`/exercises/${exerciseId}/gpx`, accessToken);
-          return {
-            content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
-          };
-        } catch (error) {
-          return {
-            content: [{ type: "text" as const, text: `Error: ${error instanceof Error ? error.message : String(error)}` }],
-            isError: true,
-          };
-        }
-      }
-    );
+  async quotaExceeded(clientId?: string): Promise<QuotaExceeded | undefined> {
+    return this.quota.exceeded(quotaLimits(this.env), clientId);
+  }
 
-    // Tool: Get Daily Activity Range
-    this.server.tool(
-      "get_daily_activity_range",
-      "Get daily activity data for a date range.",
-      {
-        from: z.string().describe("Start date (YYYY-MM-DD). Required."),
-        to: z.string().describe("End date (YYYY-MM-DD). Required."),
-      },
-      async ({ from, to }) => {
-        try {
-          const params = new URLSearchParams({ from, to });
-          const result = await polarApiRequest(`/users/activities?${params.toString()}`, accessToken);
-          return {
-            content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
-          };
-        } catch (error) {
-          return {
-            content: [{ type: "text" as const, text: `Error: ${error instanceof Error ? error.message : String(error)}` }],
-            isError: true,
-          };
-        }
-      }
-    );
+  async chargeQuota(clientId: string | undefined, requests: number): Promise<void> {
+    this.quota.charge(quotaLimits(this.env), clientId, requests);
+  }
 
-    // Tool: Get Sleep Range
-    this.server.tool(
-      "get_sleep_range",
-      "Get sleep data for a date range.",
-      {
-        from: z.string().describe("Start date (YYYY-MM-DD). Required."),
-        to: z.string().describe("End date (YYYY-MM-DD). Required."),
-      },
-      async ({ from, to }) => {
-        try {
-          const params = new URLSearchParams({ from, to });
-          const result = await polarApiRequest(`/users/sleep?${params.toString()}`, accessToken);
-          return {
-            content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
-          };
-        } catch (error) {
-          return {
-            content: [{ type: "text" as const, text: `Error: ${error instanceof Error ? error.message : String(error)}` }],
-            isError: true,
-          };
-        }
-      }
-    );
+  async summary(): Promise<UserDataSummary> {
+    const history = this.history.stats();
+    const cache = this.cache.stats();
+    return {
+      historyRecords: history.records,
+      lastHistoryUpdate: history.lastUpdated,
+      cachedResults: cache.entries,
+      cacheBytes: cache.bytes,
+      accessLogEntries: this.accessLog.count(),
+    };
+  }
 
-    // Tool: Get Nightly Recharge Range
-    this.server.tool(
-      "get_nightly_recharge_range",
-      "Get Nightly Recharge data for a date range.",
-      {
-        from: z.string().describe("Start date (YYYY-MM-DD). Required."),
-        to: z.string().describe("End date (YYYY-MM-DD). Required."),
-      },
-      async ({ from, to }) => {
-        try {
-          const params = new URLSearchParams({ from, to });
-          const result = await polarApiRequest(`/users/nightly-recharge?${params.toString()}`, accessToken);
-          return {
-            content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
-          };
-        } catch (error) {
-          return {
-            content: [{ type: "text" as const, text: `Error: ${error instanceof Error ? error.message : String(error)}` }],
-            isError: true,
-          };
-        }
-      }
-    );
+  async eraseUserData(keepSession?: string): Promise<void> {
+    this.sessionTable();
+    const sessions = this.ctx.storage.sql
+      .exec<{ name: string }>("SELECT name FROM polar_sessions")
+      .toArray()
+      .map((row) => row.name);
+    await Promise.all(
+      sessions
+        .filter((session) => session !== keepSession)
+        .map((session) =>
+          sessionAgent(this.env, session)
+            .destroy()
+            .catch((error) => console.error(`Could not destroy session ${session}:`, error))
+        )
+    );
+    this.historyStore = undefined;
+    this.responseCache = undefined;
+    this.accessLogStore = undefined;
+    this.quotaCounters = undefined;
+    await this.destroy();
   }
 }
 
@@ -657,4 +235,13 @@ export default new OAuthProvider({
   authorizeEndpoint: "/authorize",
   tokenEndpoint: "/token",
   clientRegistrationEndpoint: "/register",
+  // Grants issued before encryption or the last key rotation are resealed
+  // with the current key, and older grants learn their client ID for the
+  // access log, when the client refreshes its token
+  tokenExchangeCallback: async ({ clientId, props }) => {
+    const current = props as Props;
+    const resealed = await resealProps(env as unknown as Env, current);
+    if (!resealed && current.clientId) return undefined;
+    return { newProps: { ...(resealed ?? current), clientId } };
+  },
 });